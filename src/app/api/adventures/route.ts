@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { listAdventures } from "@/lib/adventure";
+
+// GET - the adventures a new room can play, for the landing page
+export async function GET() {
+  return NextResponse.json(listAdventures());
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGame } from "@/lib/game-state";
+import { getAdventure } from "@/lib/adventure";
+import { getMapView } from "@/lib/locations";
+import { getStoryProgress } from "@/lib/story";
+
+// GET - what the party can see of the map, and how far the story has come.
+// Served from here so the adventure file (secrets, hidden exits) stays on the server.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+
+  const game = await getGame(code);
+  if (!game) {
+    return NextResponse.json({ error: "Game not found" }, { status: 404 });
+  }
+
+  const adventure = getAdventure(game.adventureId);
+  return NextResponse.json({
+    map: getMapView(adventure, game.worldState),
+    progress: getStoryProgress(adventure, game.storyBeat),
+  });
+}
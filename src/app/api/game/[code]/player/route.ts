@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getGame, addPlayer, addCharacter, getPlayer } from "@/lib/game-state";
-import { Character } from "@/lib/character";
+import { toPublicGame } from "@/lib/events";
+import { buildCharacter, characterChoicesSchema, CharacterChoices } from "@/lib/character-builder";
 
 // POST - join game or create character
 export async function POST(
@@ -27,16 +28,21 @@ export async function POST(
     return NextResponse.json({
       success: true,
       playerId: result.playerId,
-      game: result.game,
+      game: toPublicGame(result.game),
     });
   }
 
-  // Create character
+  // Create character - the client only sends choices, we build the rest
   if (body.action === "createCharacter") {
-    const { playerId, character } = body;
+    const { playerId, choices } = body;
 
-    if (!playerId || !character) {
-      return NextResponse.json({ error: "Player ID and character required" }, { status: 400 });
+    if (!playerId || !choices) {
+      return NextResponse.json({ error: "Player ID and character choices required" }, { status: 400 });
+    }
+
+    const parsed = characterChoicesSchema.safeParse(choices);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
     }
 
     // Verify player exists
@@ -50,15 +56,17 @@ export async function POST(
       return NextResponse.json({ error: "Player already has a character" }, { status: 400 });
     }
 
-    const game = await addCharacter(code, playerId, character as Character);
+    const character = buildCharacter(playerId, parsed.data as CharacterChoices);
+    const game = await addCharacter(code, playerId, character);
 
+    // Nothing added: another request made this player's character first
     if (!game) {
-      return NextResponse.json({ error: "Could not create character" }, { status: 500 });
+      return NextResponse.json({ error: "Player already has a character" }, { status: 400 });
     }
 
     return NextResponse.json({
       success: true,
-      game,
+      game: toPublicGame(game),
     });
   }
 
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGame, addToTranscript } from "@/lib/game-state";
+import { refreshSummary } from "@/lib/dm";
+import { toPublicGame } from "@/lib/events";
+
+// POST - bring the campaign summary up to date and post it to the transcript.
+// No room lock: the summary only writes if nobody moved it on meanwhile, so
+// players can keep acting while the recap is written.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+
+  const game = await getGame(code);
+  if (!game) {
+    return NextResponse.json({ error: "Game not found" }, { status: 404 });
+  }
+
+  try {
+    const summary = await refreshSummary(code, true);
+    const updated = await addToTranscript(code, {
+      type: "system",
+      content: summary
+        ? `PREVIOUSLY ON...\n\n${summary}`
+        : "Nothing to recap yet - the adventure has only just begun.",
+      recap: true,
+    });
+    return NextResponse.json(updated && toPublicGame(updated));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not write the recap" }, { status: 500 });
+  }
+}
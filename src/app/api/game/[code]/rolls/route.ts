@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRollLog } from "@/lib/rolls";
+
+// GET - every roll made in the room, for checking against the seed.
+// ?after=<seq> returns only rolls logged after that one.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+
+  const after = Number(req.nextUrl.searchParams.get("after") ?? 0);
+  if (!Number.isInteger(after) || after < 0) {
+    return NextResponse.json({ error: "Invalid after cursor" }, { status: 400 });
+  }
+
+  const log = await getRollLog(code, after);
+  if (!log) {
+    return NextResponse.json({ error: "Game not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(log);
+}
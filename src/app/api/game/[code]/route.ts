@@ -1,8 +1,26 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getGame, createGame, getPlayer } from "@/lib/game-state";
-import { runDM } from "@/lib/dm";
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  getGame,
+  createGame,
+  getPlayer,
+  addToTranscript,
+  setThinking,
+  withRoomLock,
+  RoomBusyError,
+} from "@/lib/game-state";
+import { runDM, narrateEvents, refreshSummary } from "@/lib/dm";
+import { checkTurn, endTurn } from "@/lib/turns";
+import { withRoomDice } from "@/lib/rolls";
+import { parseSlashCommand, runSlashCommand } from "@/lib/commands";
+import { getStore } from "@/lib/store";
+import { GameDelta, buildDelta, toPublicGame } from "@/lib/events";
 
-// GET - fetch current game state (for polling)
+function isEndTurn(action: string): boolean {
+  return /^end( my)? turn\.?$/i.test(action.trim());
+}
+
+// GET - fetch current game state (for polling).
+// With ?since=<revision>, only what changed after that revision; 304 if nothing did.
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ code: string }> }
@@ -14,7 +32,27 @@ export async function GET(
     game = await createGame(code);
   }
 
-  return NextResponse.json(game);
+  const sinceParam = req.nextUrl.searchParams.get("since");
+  if (sinceParam === null) {
+    return NextResponse.json(toPublicGame(game));
+  }
+
+  const since = Number(sinceParam);
+  if (!Number.isInteger(since) || since < 0) {
+    return NextResponse.json({ error: "Invalid since cursor" }, { status: 400 });
+  }
+
+  if (since === game.revision) {
+    return new NextResponse(null, { status: 304 });
+  }
+
+  // A cursor from the future means the room was reset - start the client over
+  if (since > game.revision) {
+    return NextResponse.json({ revision: game.revision, snapshot: toPublicGame(game) } satisfies GameDelta);
+  }
+
+  const log = await getStore().readEvents(code, 0);
+  return NextResponse.json(buildDelta(game, log, since));
 }
 
 // POST - player action
@@ -29,14 +67,39 @@ export async function POST(
     return NextResponse.json({ error: "No action" }, { status: 400 });
   }
 
-  // Verify player exists if provided
+  // Verify player exists if provided. Whoever acts is the player's own
+  // character - without a player there's no character, so nothing can be
+  // done in a fight (checkTurn turns it away).
+  let playerCharacterId: string | null = null;
   if (playerId) {
     const player = await getPlayer(code, playerId);
     if (!player) {
       return NextResponse.json({ error: "Player not found" }, { status: 404 });
     }
+    playerCharacterId = player.characterId;
+  }
+  if (characterId && characterId !== playerCharacterId) {
+    return NextResponse.json({ error: "That character isn't yours" }, { status: 403 });
+  }
+
+  // One action per room at a time - concurrent POSTs wait their turn
+  try {
+    const response = await withRoomLock(code, () =>
+      withRoomDice(code, () => handleAction(code, action, playerCharacterId ?? undefined))
+    );
+    // Keep the campaign summary rolling once the room is free again - it's a
+    // model call, so it shouldn't hold up the next action or this response
+    after(() => refreshSummary(code).catch((error) => console.error(error)));
+    return response;
+  } catch (error) {
+    if (error instanceof RoomBusyError) {
+      return NextResponse.json({ error: "Another action is still being resolved - try again" }, { status: 409 });
+    }
+    throw error;
   }
+}
 
+async function handleAction(code: string, action: string, characterId?: string) {
   // Get game to find character name
   const gameState = await getGame(code);
   if (!gameState) {
@@ -53,10 +116,51 @@ export async function POST(
     ? gameState.characters.find((c) => c.id === characterId)
     : null;
 
+  // Slash commands resolve against the rules directly - no DM involved
+  const command = parseSlashCommand(action);
+  if (command) {
+    try {
+      const commandError = await runSlashCommand(code, gameState, character ?? null, command);
+      if (commandError) {
+        return NextResponse.json({ error: commandError }, { status: 400 });
+      }
+      const game = await getGame(code);
+      return NextResponse.json(game && toPublicGame(game));
+    } catch (error) {
+      console.error(error);
+      await addToTranscript(code, {
+        type: "system",
+        content: `Something went wrong running /${command.name} - try again.`,
+        characterId: character?.id,
+      });
+      return NextResponse.json({ error: "Command error" }, { status: 500 });
+    } finally {
+      await setThinking(code, null);
+    }
+  }
+
+  // During combat, only the combatant whose turn it is may act
+  const turnError = checkTurn(gameState, character?.id);
+  if (turnError) {
+    return NextResponse.json({ error: turnError }, { status: 409 });
+  }
+
   try {
+    if (gameState.phase === "combat" && character && isEndTurn(action)) {
+      await addToTranscript(code, {
+        type: "system",
+        content: `${character.name} ends their turn.`,
+        characterId: character.id,
+      });
+      const events = await endTurn(code);
+      await narrateEvents(code, events);
+      const game = await getGame(code);
+      return NextResponse.json(game && toPublicGame(game));
+    }
+
     await runDM(code, action, character || undefined);
     const game = await getGame(code);
-    return NextResponse.json(game);
+    return NextResponse.json(game && toPublicGame(game));
   } catch (error) {
     console.error(error);
     return NextResponse.json({ error: "DM error" }, { status: 500 });
@@ -0,0 +1,99 @@
+import { NextRequest } from "next/server";
+import { getGame, createGame } from "@/lib/game-state";
+import { getStore } from "@/lib/store";
+import { RoomEvent, toPublicGame } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+
+const POLL_MS = 300;
+const HEARTBEAT_MS = 15_000;
+// Close a little before maxDuration - EventSource reconnects with Last-Event-ID
+const STREAM_LIFETIME_MS = 55_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// GET - Server-Sent Events stream of room updates
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+  const store = getStore();
+  const lastEventId = Number(req.headers.get("last-event-id")) || 0;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (seq: number, event: RoomEvent) => {
+        controller.enqueue(encoder.encode(`id: ${seq}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+      // No id, so a reconnect resumes from the event log and skips stale narration
+      const sendLive = (event: RoomEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        let cursor = lastEventId;
+
+        // Fresh connection, or we fell off the end of the event log: start from a full snapshot
+        const missed = cursor ? await store.readEvents(code, cursor) : [];
+        if (!cursor || (missed.length > 0 && missed[0].seq > cursor + 1)) {
+          cursor = await store.latestEventSeq(code);
+          const game = (await getGame(code)) ?? (await createGame(code));
+          send(cursor, { type: "snapshot", game: toPublicGame(game) });
+        }
+
+        // Narration streamed before we connected isn't replayed - the finished entry will come
+        let liveCursor = (await store.readLiveEvents(code, 0)).at(-1)?.seq ?? 0;
+
+        const closeAt = Date.now() + STREAM_LIFETIME_MS;
+        let lastSent = Date.now();
+
+        while (!req.signal.aborted && Date.now() < closeAt) {
+          const events = await store.readEvents(code, cursor);
+          for (const { seq, event } of events) {
+            send(seq, event);
+            cursor = seq;
+          }
+
+          // Read after the event log, so a narration's last chunks can't land
+          // after its finished transcript entry
+          const live = await store.readLiveEvents(code, liveCursor);
+          for (const { seq, event } of live) {
+            sendLive(event);
+            liveCursor = seq;
+          }
+
+          if (events.length > 0 || live.length > 0) {
+            lastSent = Date.now();
+          } else if (Date.now() - lastSent > HEARTBEAT_MS) {
+            // Comment line keeps proxies from closing an idle connection
+            controller.enqueue(encoder.encode(": ping\n\n"));
+            lastSent = Date.now();
+          }
+
+          await sleep(POLL_MS);
+        }
+
+        controller.close();
+      } catch (error) {
+        // Client went away mid-write, or the store failed - either way, end the stream
+        if (!req.signal.aborted) console.error(error);
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
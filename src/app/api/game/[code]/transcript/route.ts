@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTranscriptPage } from "@/lib/game-state";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// GET - page backwards through the full transcript archive.
+// ?before=<seq> returns entries older than that seq (newest page if omitted).
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+  const searchParams = req.nextUrl.searchParams;
+
+  const beforeParam = searchParams.get("before");
+  const before = beforeParam === null ? null : Number(beforeParam);
+  if (before !== null && (!Number.isInteger(before) || before < 0)) {
+    return NextResponse.json({ error: "Invalid before cursor" }, { status: 400 });
+  }
+
+  const limit = Number(searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+
+  const page = await getTranscriptPage(code, before, Math.min(limit, MAX_PAGE_SIZE));
+  return NextResponse.json(page);
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGame, createGame } from "@/lib/game-state";
+import { toPublicGame } from "@/lib/events";
+import { ADVENTURES, DEFAULT_ADVENTURE_ID } from "@/lib/adventure";
+
+const MAX_CODE_ATTEMPTS = 5;
+
+function newRoomCode(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+// POST - create a room playing the chosen adventure
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const adventureId = body.adventureId ?? DEFAULT_ADVENTURE_ID;
+
+  if (typeof adventureId !== "string" || !ADVENTURES[adventureId]) {
+    return NextResponse.json({ error: "Unknown adventure" }, { status: 400 });
+  }
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = newRoomCode();
+    if (await getGame(code)) continue;
+
+    const game = await createGame(code, adventureId);
+    return NextResponse.json({ code, game: toPublicGame(game) });
+  }
+
+  return NextResponse.json({ error: "Could not find a free room code" }, { status: 500 });
+}
@@ -1,17 +1,47 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import type { AdventureSummary } from "@/lib/adventure";
 
 export default function Home() {
   const router = useRouter();
   const [joinCode, setJoinCode] = useState("");
   const [createdCode, setCreatedCode] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [choosing, setChoosing] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [adventures, setAdventures] = useState<AdventureSummary[]>([]);
 
-  const create = () => {
-    const code = Math.random().toString(36).slice(2, 8);
-    setCreatedCode(code);
+  useEffect(() => {
+    fetch("/api/adventures")
+      .then((res) => res.json())
+      .then(setAdventures)
+      .catch(() => setError("Could not load adventures"));
+  }, []);
+
+  const create = async (adventureId: string) => {
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/game", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ adventureId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Could not create room");
+        return;
+      }
+      setCreatedCode(data.code);
+      setChoosing(false);
+    } catch {
+      setError("Could not create room");
+    } finally {
+      setCreating(false);
+    }
   };
 
   const copyCode = async () => {
@@ -77,7 +107,32 @@ export default function Home() {
               </button>
             </div>
             <button
-              onClick={() => setCreatedCode(null)}
+              onClick={() => {
+                setCreatedCode(null);
+                setChoosing(false);
+              }}
+              className="w-full py-1 text-green-800 hover:text-green-600 text-sm"
+            >
+              cancel
+            </button>
+          </div>
+        ) : choosing ? (
+          <div className="border border-green-700 p-6 space-y-4">
+            <div className="text-center text-green-500 text-sm">Choose an adventure:</div>
+            {adventures.map((adventure) => (
+              <button
+                key={adventure.id}
+                onClick={() => create(adventure.id)}
+                disabled={creating}
+                className="w-full text-left p-3 border border-green-900 hover:border-green-700 hover:bg-green-900/30 disabled:opacity-50"
+              >
+                <div className="text-green-300">{adventure.title}</div>
+                <div className="text-green-700 text-xs mt-1">{adventure.summary}</div>
+              </button>
+            ))}
+            {error && <div className="text-red-400 text-sm text-center">{error}</div>}
+            <button
+              onClick={() => setChoosing(false)}
               className="w-full py-1 text-green-800 hover:text-green-600 text-sm"
             >
               cancel
@@ -86,7 +141,7 @@ export default function Home() {
         ) : (
           <div className="border border-green-900 p-6 space-y-6">
             <button
-              onClick={create}
+              onClick={() => setChoosing(true)}
               className="w-full py-3 border border-green-700 hover:bg-green-900/30"
             >
               [ NEW GAME ]
@@ -4,58 +4,53 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { useParams } from "next/navigation";
 import CharacterCreation from "@/components/CharacterCreation";
 import CharacterSheet from "@/components/CharacterSheet";
-import { Character } from "@/lib/character";
-
-interface Entry {
-  id: string;
-  type: "narration" | "player" | "dice" | "npc" | "combat" | "system";
-  content: string;
-  speaker?: string;
-  characterId?: string;
-  ts: number;
-}
+import MapPanel from "@/components/MapPanel";
+import QuestPanel from "@/components/QuestPanel";
+import BattleGrid from "@/components/BattleGrid";
+import { CharacterChoices } from "@/lib/character-builder";
+import type { TranscriptEntry } from "@/lib/game-state";
+import { PublicGameState, RoomEvent, applyRoomEvent } from "@/lib/events";
+import type { StoryProgress } from "@/lib/story";
+import type { MapView } from "@/lib/locations";
 
-interface Player {
-  id: string;
-  name: string;
-  characterId: string | null;
-}
+type ViewState = "loading" | "join" | "intro" | "character_creation" | "how_to_play" | "game";
 
-interface CombatState {
-  active: boolean;
-  round: number;
-  turnIndex: number;
-  initiativeOrder: { id: string; name: string; initiative: number }[];
-  enemies: { id: string; name: string; currentHp: number; maxHp: number }[];
+// A fresh copy of the game only carries the newest entries - keep the older
+// ones we've already loaded, as long as they join up without a gap
+function keepHistory(next: PublicGameState, current: PublicGameState | null): PublicGameState {
+  const first = next.transcript[0]?.seq;
+  if (!current || first === undefined) return next;
+  const older = current.transcript.filter((e) => e.seq < first);
+  if (older.length === 0 || older[older.length - 1].seq !== first - 1) return next;
+  return { ...next, transcript: [...older, ...next.transcript] };
 }
 
-interface GameState {
-  roomCode: string;
-  players: Player[];
-  characters: Character[];
-  transcript: Entry[];
-  phase: "character_creation" | "exploration" | "combat" | "social" | "rest";
-  combat: CombatState | null;
-  currentTurn: string | null;
-  thinking: { active: boolean; phase: string } | null;
-  lastUpdate: number;
+function prependEntries(game: PublicGameState, entries: TranscriptEntry[]): PublicGameState {
+  const first = game.transcript[0]?.seq ?? Infinity;
+  return { ...game, transcript: [...entries.filter((e) => e.seq < first), ...game.transcript] };
 }
 
-type ViewState = "loading" | "join" | "intro" | "character_creation" | "how_to_play" | "game";
-
 export default function Room() {
   const { code } = useParams<{ code: string }>();
-  const [game, setGame] = useState<GameState | null>(null);
+  const [game, setGame] = useState<PublicGameState | null>(null);
   const [viewState, setViewState] = useState<ViewState>("loading");
   const [playerId, setPlayerId] = useState<string | null>(null);
   const [playerName, setPlayerName] = useState("");
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [showSheet, setShowSheet] = useState(true);
+  const [showMap, setShowMap] = useState(false);
+  const [showQuests, setShowQuests] = useState(false);
   const [seenIntro, setSeenIntro] = useState(false);
   const [seenHowToPlay, setSeenHowToPlay] = useState(false);
+  const [streamingNarration, setStreamingNarration] = useState("");
+  const [openedAt] = useState(() => Date.now());
+  const [recapDismissed, setRecapDismissed] = useState(false);
+  const [mapView, setMapView] = useState<MapView | null>(null);
+  const [progress, setProgress] = useState<StoryProgress | null>(null);
   const termRef = useRef<HTMLDivElement>(null);
-  const lastUpdate = useRef(0);
+  const loadingOlder = useRef(false);
 
   // Get current player and character
   const currentPlayer = game?.players.find((p) => p.id === playerId);
@@ -65,7 +60,7 @@ export default function Room() {
 
   // Determine view state based on game state and player
   const determineViewState = useCallback(
-    (gameData: GameState, pid: string | null, introSeen: boolean, howToPlaySeen: boolean): ViewState => {
+    (gameData: PublicGameState, pid: string | null, introSeen: boolean, howToPlaySeen: boolean): ViewState => {
       if (!pid) return "join";
 
       const player = gameData.players.find((p) => p.id === pid);
@@ -91,26 +86,55 @@ export default function Room() {
     }
   }, [code]);
 
-  // Poll for updates
+  // Subscribe to room updates (EventSource reconnects and resumes on its own)
   useEffect(() => {
-    const poll = async () => {
-      try {
-        const res = await fetch(`/api/game/${code}`);
-        const data = await res.json();
-        if (data.lastUpdate !== lastUpdate.current) {
-          setGame(data);
-          lastUpdate.current = data.lastUpdate;
-          setViewState(determineViewState(data, playerId, seenIntro, seenHowToPlay));
-        }
-      } catch (e) {
-        console.error(e);
+    const source = new EventSource(`/api/game/${code}/stream`);
+
+    source.onmessage = (message) => {
+      const event: RoomEvent = JSON.parse(message.data);
+
+      if (event.type === "narration_delta") {
+        setStreamingNarration((text) => text + event.text);
+        return;
+      }
+
+      // The finished narration replaces the streamed draft
+      if (event.type === "snapshot" || (event.type === "transcript" && event.entry.type === "narration")) {
+        setStreamingNarration("");
       }
+
+      setGame((current) =>
+        event.type === "snapshot"
+          ? keepHistory(event.game, current)
+          : current && applyRoomEvent(current, event)
+      );
     };
 
-    poll();
-    const interval = setInterval(poll, 2000);
-    return () => clearInterval(interval);
-  }, [code, playerId, seenIntro, seenHowToPlay, determineViewState]);
+    return () => source.close();
+  }, [code]);
+
+  // The map and story progress come from the server, which keeps the adventure
+  // file to itself - refetch when anything they show could have changed
+  const mapKey =
+    game &&
+    [game.storyBeat, game.worldState.location, game.worldState.clock, ...game.worldState.discoveredLocations].join("|");
+  useEffect(() => {
+    if (!mapKey) return;
+    let stale = false;
+
+    fetch(`/api/game/${code}/map`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { map: MapView; progress: StoryProgress } | null) => {
+        if (!data || stale) return;
+        setMapView(data.map);
+        setProgress(data.progress);
+      })
+      .catch((e) => console.error(e));
+
+    return () => {
+      stale = true;
+    };
+  }, [code, mapKey]);
 
   // Update view state when playerId or seen states change
   useEffect(() => {
@@ -119,10 +143,35 @@ export default function Room() {
     }
   }, [game, playerId, seenIntro, seenHowToPlay, determineViewState]);
 
-  // Auto-scroll transcript
+  // Auto-scroll transcript (only for new entries - not when older ones load in above)
+  const lastEntryId = game?.transcript[game.transcript.length - 1]?.id;
   useEffect(() => {
     termRef.current?.scrollTo(0, termRef.current.scrollHeight);
-  }, [game?.transcript, game?.thinking]);
+  }, [lastEntryId, game?.thinking, streamingNarration]);
+
+  // Load older transcript entries from the archive when scrolled to the top
+  const handleTranscriptScroll = async () => {
+    const el = termRef.current;
+    const first = game?.transcript[0];
+    if (!el || el.scrollTop > 40 || !first || first.seq === 0 || loadingOlder.current) return;
+
+    loadingOlder.current = true;
+    try {
+      const res = await fetch(`/api/game/${code}/transcript?before=${first.seq}`);
+      const data = await res.json();
+      if (res.ok) {
+        // Hold the view where it was while entries are added above it
+        const fromBottom = el.scrollHeight - el.scrollTop;
+        setGame((current) => current && prependEntries(current, data.entries));
+        requestAnimationFrame(() => {
+          el.scrollTop = el.scrollHeight - fromBottom;
+        });
+      }
+    } catch (e) {
+      console.error(e);
+    }
+    loadingOlder.current = false;
+  };
 
   // Join game
   const handleJoin = async (e: React.FormEvent) => {
@@ -141,7 +190,7 @@ export default function Room() {
       if (data.success) {
         setPlayerId(data.playerId);
         localStorage.setItem(`player_${code}`, data.playerId);
-        setGame(data.game);
+        setGame((current) => keepHistory(data.game, current));
         setViewState("intro"); // Show intro first, then character creation
       } else {
         alert(data.error || "Could not join game");
@@ -154,7 +203,7 @@ export default function Room() {
   };
 
   // Create character
-  const handleCharacterCreate = async (character: Character) => {
+  const handleCharacterCreate = async (choices: CharacterChoices) => {
     if (!playerId) return;
 
     setLoading(true);
@@ -165,13 +214,13 @@ export default function Room() {
         body: JSON.stringify({
           action: "createCharacter",
           playerId,
-          character,
+          choices,
         }),
       });
       const data = await res.json();
 
       if (data.success) {
-        setGame(data.game);
+        setGame((current) => keepHistory(data.game, current));
         setViewState("how_to_play"); // Show how-to-play before starting game
       } else {
         alert(data.error || "Could not create character");
@@ -183,14 +232,10 @@ export default function Room() {
     setLoading(false);
   };
 
-  // Submit action
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || loading) return;
-
+  // Send an action to the DM
+  const sendAction = async (action: string) => {
     setLoading(true);
-    const action = input.trim();
-    setInput("");
+    setActionError(null);
 
     try {
       const res = await fetch(`/api/game/${code}`, {
@@ -203,8 +248,40 @@ export default function Room() {
         }),
       });
       const data = await res.json();
-      setGame(data);
-      lastUpdate.current = data.lastUpdate;
+      if (!res.ok) {
+        setActionError(data.error || "Action failed");
+      } else {
+        setGame((current) => keepHistory(data, current));
+      }
+    } catch (e) {
+      console.error(e);
+    }
+    setLoading(false);
+  };
+
+  // Submit action
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || loading) return;
+
+    const action = input.trim();
+    setInput("");
+    await sendAction(action);
+  };
+
+  // Ask the DM for a recap of the story so far (posted for the whole room)
+  const requestRecap = async () => {
+    setLoading(true);
+    setActionError(null);
+
+    try {
+      const res = await fetch(`/api/game/${code}/recap`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setActionError(data.error || "Recap failed");
+      } else {
+        setGame((current) => keepHistory(data, current));
+      }
     } catch (e) {
       console.error(e);
     }
@@ -213,6 +290,10 @@ export default function Room() {
 
   const thinking = game?.thinking?.active ? game.thinking.phase : null;
 
+  // Players who joined before this page was opened are coming back to the game
+  const showPreviouslyOn =
+    !recapDismissed && !!currentPlayer && currentPlayer.joinedAt < openedAt && !!game?.summary?.text;
+
   // ============= RENDER STATES =============
 
   if (viewState === "loading") {
@@ -450,11 +531,38 @@ export default function Room() {
               {game.phase.toUpperCase()}
             </span>
           )}
+          {game && game.phase !== "character_creation" && progress && (
+            <span className="text-green-600 text-xs" title={progress.desc}>
+              ACT {progress.act}/{progress.totalActs}{" "}
+              <span className="text-green-400">{"▮".repeat(progress.act)}</span>
+              <span className="text-green-900">{"▯".repeat(progress.totalActs - progress.act)}</span>{" "}
+              {progress.desc}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-4">
           <span className="text-green-600">
             {game?.players.length}/4 players
           </span>
+          <button
+            onClick={requestRecap}
+            disabled={loading}
+            className="text-green-600 hover:text-green-400 text-xs disabled:opacity-50"
+          >
+            [Recap]
+          </button>
+          <button
+            onClick={() => setShowMap(!showMap)}
+            className="text-green-600 hover:text-green-400 text-xs"
+          >
+            [{showMap ? "Hide" : "Show"} Map]
+          </button>
+          <button
+            onClick={() => setShowQuests(!showQuests)}
+            className="text-green-600 hover:text-green-400 text-xs"
+          >
+            [{showQuests ? "Hide" : "Show"} Quests]
+          </button>
           <button
             onClick={() => setShowSheet(!showSheet)}
             className="text-green-600 hover:text-green-400 text-xs"
@@ -480,7 +588,32 @@ export default function Room() {
             }
             return null;
           })()}
-          <div ref={termRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+
+          {/* Previously on... for players coming back to the game */}
+          {showPreviouslyOn && (
+            <div className="bg-amber-950/30 border-b border-amber-900 px-4 py-2 text-sm">
+              <div className="flex justify-between items-center text-amber-400 mb-1">
+                <span>PREVIOUSLY ON...</span>
+                <button
+                  onClick={() => setRecapDismissed(true)}
+                  className="text-amber-600 hover:text-amber-400 text-xs"
+                >
+                  [dismiss]
+                </button>
+              </div>
+              <div className="text-amber-200/80 whitespace-pre-wrap">{game?.summary.text}</div>
+            </div>
+          )}
+
+          <div
+            ref={termRef}
+            onScroll={handleTranscriptScroll}
+            className="flex-1 overflow-y-auto p-4 space-y-3"
+          >
+            {!!game?.transcript[0]?.seq && (
+              <div className="text-green-800 text-xs text-center">- scroll up for earlier entries -</div>
+            )}
+
             {game?.transcript.map((e) => {
               const time = new Date(e.ts);
               const timeStr = time.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -517,6 +650,10 @@ export default function Room() {
               );
             })}
 
+            {streamingNarration && (
+              <div className="whitespace-pre-wrap">{streamingNarration}</div>
+            )}
+
             {thinking && (
               <div className="text-green-600 animate-pulse">{thinking}</div>
             )}
@@ -551,6 +688,22 @@ export default function Room() {
                 ) : null}
               </div>
 
+              {/* Turn budget for whoever is up */}
+              {currentCombatant?.resources && (
+                <div className="flex gap-3 text-xs">
+                  <span className={currentCombatant.resources.actions > 0 ? "text-amber-400" : "text-green-900 line-through"}>
+                    ACTION{currentCombatant.resources.actions > 1 ? ` x${currentCombatant.resources.actions}` : ""}
+                  </span>
+                  <span className={currentCombatant.resources.bonusAction ? "text-amber-400" : "text-green-900 line-through"}>
+                    BONUS
+                  </span>
+                  <span className={currentCombatant.resources.reaction ? "text-amber-400" : "text-green-900 line-through"}>
+                    REACTION
+                  </span>
+                  <span className="text-green-500">MOVE {currentCombatant.resources.movement}ft</span>
+                </div>
+              )}
+
               {/* Initiative Order */}
               {game.combat.initiativeOrder && game.combat.initiativeOrder.length > 0 && (
                 <div className="flex flex-wrap gap-1 text-xs">
@@ -579,6 +732,9 @@ export default function Room() {
                 </div>
               )}
 
+              {/* Battle map */}
+              {game.combat.map && <BattleGrid combat={game.combat} myCharacterId={currentCharacter?.id} />}
+
               {/* Enemies */}
               {game.combat.enemies && game.combat.enemies.length > 0 && (
                 <div className="space-y-1">
@@ -603,6 +759,9 @@ export default function Room() {
                         <span className="text-red-500 w-16 text-right">
                           {enemy.currentHp}/{enemy.maxHp}
                         </span>
+                        {enemy.conditions.length > 0 && (
+                          <span className="text-yellow-600">{enemy.conditions.join(", ")}</span>
+                        )}
                       </div>
                     );
                   })}
@@ -610,14 +769,31 @@ export default function Room() {
               )}
 
               {/* Combat Tips - shown to everyone so they can plan */}
-              <div className={`text-xs border-t border-red-900 pt-2 ${isMyTurn ? "text-amber-500" : "text-green-700"}`}>
-                {isMyTurn ? "Your actions: " : "Actions: "}
-                attack [target], cast [spell], dodge, dash, disengage, help, hide
+              <div className={`flex justify-between items-center gap-2 text-xs border-t border-red-900 pt-2 ${isMyTurn ? "text-amber-500" : "text-green-700"}`}>
+                <span>
+                  {isMyTurn ? "Your actions: " : "Actions: "}
+                  /move C4, attack [target], cast [spell], dodge, dash, disengage, help, hide
+                </span>
+                {isMyTurn && (
+                  <button
+                    onClick={() => sendAction("end turn")}
+                    disabled={loading}
+                    className="shrink-0 px-2 py-0.5 border border-amber-600 text-amber-400 hover:bg-amber-900/30 disabled:opacity-50"
+                  >
+                    [ END TURN ]
+                  </button>
+                )}
               </div>
             </div>
             );
           })()}
 
+          {actionError && (
+            <div className="border-t border-red-900 px-4 py-1 text-red-400 text-sm">
+              {actionError}
+            </div>
+          )}
+
           {/* Input */}
           <form
             onSubmit={handleSubmit}
@@ -641,6 +817,20 @@ export default function Room() {
           </form>
         </div>
 
+        {/* Map Sidebar */}
+        {showMap && game && mapView && (
+          <div className="w-56 border-l border-green-900 p-3 overflow-y-auto hidden md:block">
+            <MapPanel view={mapView} clock={game.worldState.clock} location={game.worldState.location} />
+          </div>
+        )}
+
+        {/* Quest Sidebar */}
+        {showQuests && game && (
+          <div className="w-64 border-l border-green-900 p-3 overflow-y-auto hidden md:block">
+            <QuestPanel quests={game.quests} npcs={game.npcs} world={game.worldState} />
+          </div>
+        )}
+
         {/* Character Sheet Sidebar */}
         {showSheet && currentCharacter && (
           <div className="w-64 border-l border-green-900 p-3 overflow-y-auto hidden md:block">
@@ -0,0 +1,59 @@
+"use client";
+
+import { CombatState, getMapLabels } from "@/lib/rules/combat";
+import { getOccupant, getTerrain, renderBattleMap } from "@/lib/rules/grid";
+
+interface BattleGridProps {
+  combat: CombatState;
+  myCharacterId?: string;
+}
+
+export default function BattleGrid({ combat, myCharacterId }: BattleGridProps) {
+  const { map } = combat;
+  const labels = getMapLabels(combat);
+  const current = combat.initiativeOrder[combat.turnIndex]?.id;
+  const [header, ...rows] = renderBattleMap(map, labels);
+
+  // Colour each square by what's on it; the text itself comes from renderBattleMap
+  const squareClass = (x: number, y: number): string => {
+    const occupant = getOccupant(map, { x, y });
+    if (occupant) {
+      const isEnemy = combat.enemies.some((e) => e.id === occupant);
+      const base = isEnemy ? "text-red-400" : occupant === myCharacterId ? "text-amber-300" : "text-cyan-400";
+      return `${base} ${occupant === current ? "bg-amber-900/60" : ""}`;
+    }
+    const terrain = getTerrain(map, { x, y });
+    return terrain === "wall" ? "text-green-600" : terrain === "difficult" ? "text-yellow-700" : "text-green-900";
+  };
+
+  return (
+    <div className="font-mono text-xs leading-tight">
+      <div className="text-green-700 whitespace-pre">{header}</div>
+      {rows.map((row, y) => (
+        <div key={y} className="whitespace-pre">
+          <span className="text-green-700">{row.slice(0, 3)}</span>
+          {row
+            .slice(3)
+            .split("")
+            .map((square, x) => (
+              <span key={x} className={squareClass(x, y)}>
+                {square}
+              </span>
+            ))}
+        </div>
+      ))}
+      <div className="mt-1 flex flex-wrap gap-x-3 text-green-700">
+        {combat.initiativeOrder.map((c) => (
+          <span key={c.id}>
+            <span className={combat.enemies.some((e) => e.id === c.id) ? "text-red-400" : "text-cyan-400"}>
+              {labels[c.id]}
+            </span>{" "}
+            {c.name}
+          </span>
+        ))}
+        <span>~ rough</span>
+        <span># wall</span>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,14 @@
 "use client";
 
 import { useState } from "react";
-import {
-  Character,
-  CharacterClass,
-  Race,
-  getModifier,
-  calculateAC,
-  Abilities,
-  createEmptySpellSlots,
-  Armor,
-} from "@/lib/character";
-import { CLASSES, getMaxHp, getSpellSlots } from "@/lib/rules/classes";
+import { CharacterClass, Race, Skill, getModifier, Abilities } from "@/lib/character";
+import { CLASSES } from "@/lib/rules/classes";
 import { RACES, applyRacialBonuses } from "@/lib/rules/races";
-import { getStartingEquipment } from "@/lib/rules/equipment";
-import { getStartingCantrips, getStartingSpells } from "@/lib/rules/spells";
+import { CharacterChoices, buildCharacter } from "@/lib/character-builder";
 
 interface CharacterCreationProps {
   playerId: string;
-  onComplete: (character: Character) => void;
+  onComplete: (choices: CharacterChoices) => void;
 }
 
 type Step = "name" | "class" | "race" | "stats" | "confirm";
@@ -69,6 +59,7 @@ export default function CharacterCreation({
   const [selectedClass, setSelectedClass] = useState<CharacterClass | null>(null);
   const [selectedRace, setSelectedRace] = useState<Race | null>(null);
   const [swapStats, setSwapStats] = useState<[number, number] | null>(null);
+  const [selectedSkills, setSelectedSkills] = useState<Skill[]>([]);
 
   const classData = selectedClass ? CLASSES[selectedClass] : null;
   const raceData = selectedRace ? RACES[selectedRace] : null;
@@ -88,11 +79,10 @@ export default function CharacterCreation({
     return { ...classData.recommendedAbilities };
   };
 
-  // Apply race bonuses to abilities
-  const getFinalAbilities = (): Abilities => {
-    let abilities = getBaseAbilities();
+  // Base scores with the player's swap applied (racial bonuses come later)
+  const getAssignedAbilities = (): Abilities => {
+    const abilities = getBaseAbilities();
 
-    // Apply stat swap if selected
     if (swapStats !== null) {
       const keys = Object.keys(abilities) as (keyof Abilities)[];
       const [i, j] = swapStats;
@@ -101,85 +91,43 @@ export default function CharacterCreation({
       abilities[keys[j]] = temp;
     }
 
-    // Apply racial bonuses
-    if (selectedRace) {
-      abilities = applyRacialBonuses(abilities, selectedRace);
-    }
-
     return abilities;
   };
 
-  const createCharacter = (): Character => {
-    if (!selectedClass || !selectedRace || !classData || !raceData) {
-      throw new Error("Invalid character configuration");
-    }
-
-    const abilities = getFinalAbilities();
-    const startingEquipment = getStartingEquipment(classData.startingEquipment);
+  // Apply race bonuses to abilities
+  const getFinalAbilities = (): Abilities => {
+    const abilities = getAssignedAbilities();
+    return selectedRace ? applyRacialBonuses(abilities, selectedRace) : abilities;
+  };
 
-    const character: Character = {
-      id: crypto.randomUUID(),
-      playerId,
+  // The choices we send - the server builds the actual character from these
+  const getChoices = (): CharacterChoices | null => {
+    if (!selectedClass || !selectedRace) return null;
+    return {
       name: name.trim(),
-      race: selectedRace,
       class: selectedClass,
-      level: 1,
-      xp: 0,
-      background: "",
-      abilities,
-      maxHp: getMaxHp(selectedClass, 1, abilities.constitution),
-      currentHp: getMaxHp(selectedClass, 1, abilities.constitution),
-      tempHp: 0,
-      armorClass: 10 + getModifier(abilities.dexterity), // Will be recalculated with armor
-      speed: raceData.speed,
-      proficiencyBonus: 2,
-      hitDice: { total: 1, current: 1, die: classData.hitDie },
-      savingThrows: [...classData.savingThrows],
-      skills: [...classData.defaultSkills],
-      languages: ["Common", ...(raceData.languages || [])],
-      armorProficiencies: classData.armorProficiencies ? [...classData.armorProficiencies] : [],
-      weaponProficiencies: [...classData.weaponProficiencies],
-      toolProficiencies: [...classData.toolProficiencies],
-      inventory: startingEquipment,
-      equippedArmor: null,
-      equippedWeapon: null,
-      equippedShield: null,
-      gold: 15,
-      spellcastingAbility: classData.spellcastingAbility || null,
-      spellSlots: classData.spellcastingAbility ? getSpellSlots(selectedClass, 1) : createEmptySpellSlots(),
-      knownSpells: (selectedClass === "wizard" || selectedClass === "cleric") ? getStartingSpells(selectedClass) : [],
-      preparedSpells: [],
-      cantripsKnown: (selectedClass === "wizard" || selectedClass === "cleric") ? getStartingCantrips(selectedClass) : [],
-      features: classData.features.filter((f) => f.level <= 1),
-      conditions: [],
-      deathSaves: { successes: 0, failures: 0 },
-      concentrating: null,
+      race: selectedRace,
+      abilities: getAssignedAbilities(),
+      skills: selectedSkills,
     };
+  };
 
-    // Calculate AC based on equipment
-    const armorItem = startingEquipment.find((i) => i.type === "armor" && i.id !== "shield") as Armor | undefined;
-    const shield = startingEquipment.find((i) => i.id === "shield");
-
-    if (armorItem) {
-      character.equippedArmor = armorItem.id;
-    }
-    if (shield) {
-      character.equippedShield = shield.id;
-    }
-    character.armorClass = calculateAC(character, armorItem || null, !!shield);
-
-    // Set equipped weapon
-    const weapon = startingEquipment.find((i) => i.type === "weapon");
-    if (weapon) {
-      character.equippedWeapon = weapon.id;
-    }
+  const selectClass = (cls: CharacterClass) => {
+    setSelectedClass(cls);
+    setSelectedSkills([...CLASSES[cls].defaultSkills]);
+  };
 
-    return character;
+  const toggleSkill = (skill: Skill) => {
+    setSelectedSkills((skills) =>
+      skills.includes(skill) ? skills.filter((s) => s !== skill) : [...skills, skill]
+    );
   };
 
+  const skillsComplete = !!classData && selectedSkills.length === classData.numSkillChoices;
+
   const handleSubmit = () => {
-    const character = createCharacter();
-    onComplete(character);
+    const choices = getChoices();
+    if (choices) onComplete(choices);
   };
 
   // ============= RENDER STEPS =============
@@ -220,7 +168,7 @@ export default function CharacterCreation({
           return (
             <button
               key={cls}
-              onClick={() => setSelectedClass(cls)}
+              onClick={() => selectClass(cls)}
               className={`text-left p-3 border ${
                 isSelected
                   ? "border-green-400 bg-green-900"
@@ -365,6 +313,33 @@ export default function CharacterCreation({
             Reset swap
           </button>
         )}
+        {classData && (
+          <>
+            <div className="text-green-600 text-sm">
+              Pick {classData.numSkillChoices} skills ({selectedSkills.length}/{classData.numSkillChoices}):
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {classData.skillChoices.map((skill) => {
+                const picked = selectedSkills.includes(skill);
+                const full = !picked && selectedSkills.length >= classData.numSkillChoices;
+                return (
+                  <button
+                    key={skill}
+                    onClick={() => toggleSkill(skill)}
+                    disabled={full}
+                    className={`px-2 py-1 border text-sm disabled:opacity-40 ${
+                      picked
+                        ? "border-green-400 bg-green-900 text-green-300"
+                        : "border-green-800 text-green-600 hover:border-green-600"
+                    }`}
+                  >
+                    {skill.replace(/_/g, " ")}
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
         <div className="flex gap-2">
           <button
             onClick={() => setStep("race")}
@@ -374,7 +349,8 @@ export default function CharacterCreation({
           </button>
           <button
             onClick={() => setStep("confirm")}
-            className="flex-1 bg-green-900 hover:bg-green-800 text-green-400 py-2 border border-green-700"
+            disabled={!skillsComplete}
+            className="flex-1 bg-green-900 hover:bg-green-800 disabled:opacity-50 disabled:cursor-not-allowed text-green-400 py-2 border border-green-700"
           >
             Continue
           </button>
@@ -384,15 +360,11 @@ export default function CharacterCreation({
   };
 
   const renderConfirmStep = () => {
+    const choices = getChoices();
+    const preview = choices ? buildCharacter(playerId, choices) : null;
     const abilities = getFinalAbilities();
-    const hp = classData
-      ? getMaxHp(selectedClass!, 1, abilities.constitution)
-      : 0;
-    const ac =
-      10 +
-      getModifier(abilities.dexterity) +
-      (classData?.startingEquipment.includes("chain_mail") ? 6 : 0) +
-      (classData?.startingEquipment.includes("shield") ? 2 : 0);
+    const hp = preview?.maxHp ?? 0;
+    const ac = preview?.armorClass ?? 0;
 
     return (
       <div className="space-y-4">
@@ -444,7 +416,7 @@ export default function CharacterCreation({
             </div>
             <div>
               <span className="text-green-500">Skills:</span>{" "}
-              {classData?.defaultSkills.join(", ")}
+              {preview?.skills.map((s) => s.replace(/_/g, " ")).join(", ")}
             </div>
             {raceData?.traits && (
               <div>
@@ -0,0 +1,55 @@
+"use client";
+
+import type { MapView } from "@/lib/locations";
+import { formatClock, formatDuration } from "@/lib/clock";
+
+interface MapPanelProps {
+  view: MapView;
+  clock: number;
+  location: string;
+}
+
+export default function MapPanel({ view, clock, location }: MapPanelProps) {
+  const { here, exits, known } = view;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="text-green-700 text-xs">MAP - {formatClock(clock).toUpperCase()}</div>
+
+      {here && (
+        <div className="border border-amber-700 p-2">
+          <div className="text-amber-400">@ {here.name}</div>
+          <div className="text-green-600 text-xs mt-1">{here.description}</div>
+          <div className="text-green-700 text-xs mt-1">Light: {here.light}</div>
+        </div>
+      )}
+
+      {exits.length > 0 && (
+        <div>
+          <div className="text-green-700 text-xs mb-1">PATHS</div>
+          {exits.map((exit) => (
+            <div key={exit.to} className="flex justify-between text-xs">
+              <span className={exit.name ? "text-green-400" : "text-green-700"}>
+                → {exit.name ?? "Unexplored"}
+              </span>
+              <span className="text-green-700">{formatDuration(exit.minutes)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div className="text-green-700 text-xs mb-1">KNOWN PLACES</div>
+        {known.map(({ id, name }) => (
+          <div
+            key={id}
+            className={`text-xs ${id === location ? "text-amber-400" : "text-green-500"}`}
+          >
+            {id === location ? "@ " : "· "}
+            {name}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import type { Quest, WorldState } from "@/lib/game-state";
+import type { PublicNpc } from "@/lib/events";
+import { formatReward, getQuestProgress, isObjectiveDone } from "@/lib/quests";
+
+interface QuestPanelProps {
+  quests: Record<string, Quest>;
+  npcs: Record<string, PublicNpc>;
+  world: WorldState;
+}
+
+const STATE_STYLES: Record<Quest["state"], string> = {
+  offered: "text-amber-400",
+  active: "text-green-400",
+  completed: "text-green-700",
+  failed: "text-red-700",
+};
+
+// Open quests first, then the finished ones
+const STATE_ORDER: Quest["state"][] = ["active", "offered", "completed", "failed"];
+
+export default function QuestPanel({ quests, npcs, world }: QuestPanelProps) {
+  const sorted = Object.values(quests).sort(
+    (a, b) => STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state)
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="text-green-700 text-xs">QUEST JOURNAL</div>
+
+      {sorted.length === 0 && <div className="text-green-700 text-xs">No quests yet.</div>}
+
+      {sorted.map((quest) => {
+        const { done, total } = getQuestProgress(world, quest);
+        const open = quest.state === "offered" || quest.state === "active";
+        return (
+          <div key={quest.id} className={`border p-2 ${open ? "border-green-800" : "border-green-950"}`}>
+            <div className="flex justify-between">
+              <span className={open ? "text-green-400" : "text-green-700 line-through"}>{quest.title}</span>
+              <span className={`text-xs ${STATE_STYLES[quest.state]}`}>{quest.state.toUpperCase()}</span>
+            </div>
+            {quest.giver && (
+              <div className="text-green-700 text-xs">from {npcs[quest.giver]?.name ?? quest.giver}</div>
+            )}
+            {open && (
+              <>
+                <div className="text-green-600 text-xs mt-1">{quest.description}</div>
+                <div className="mt-1">
+                  {quest.objectives.map((o) => {
+                    const finished = isObjectiveDone(world, quest.id, o.id);
+                    return (
+                      <div key={o.id} className={`text-xs ${finished ? "text-green-700" : "text-green-500"}`}>
+                        {finished ? "[x]" : "[ ]"} {o.text}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="text-green-700 text-xs mt-1">
+                  {done}/{total} - Reward: {formatReward(quest)}
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
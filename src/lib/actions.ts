@@ -0,0 +1,1249 @@
+// Game actions shared by the DM's tools and players' slash commands.
+// Each one validates, applies the rules, updates the room and logs the result,
+// returning { error } when it can't go ahead.
+
+import {
+  addToTranscript,
+  getGame,
+  mutateGame,
+  ActiveEffect,
+  GameState,
+  addEffect,
+  getEffectTarget,
+  passTime,
+  Quest,
+  setThinking,
+  startCombat,
+  updateCharacter,
+  updateEnemy,
+} from "./game-state";
+import { checkTurn, resolveEnemyTurns } from "./turns";
+import { checkBeatTransition, getStoryBeat } from "./story";
+import { Adventure, getAdventure } from "./adventure";
+import { getLocation, getVisibleExits } from "./locations";
+import { formatReward, getObjectiveFlag, getQuestId, getQuestProgress, isObjectiveDone } from "./quests";
+import { formatClock, formatDuration, parseDuration } from "./clock";
+import { createEnemyGroup } from "./rules/enemies";
+import { resolveTraitDamage } from "./rules/traits";
+import { WEAPONS, ARMOR, GEAR } from "./rules/equipment";
+import { Armor, Character, Condition, DamageType, InventoryItem, Spell, calculateAC } from "./character";
+import { rollSavingThrow, getSpellSaveDC } from "./rules/abilities";
+import { resistsMagicalSleep } from "./rules/races";
+import {
+  CANTRIPS,
+  SPELLS_LEVEL_1,
+  SPELLS_LEVEL_2,
+  canCastSpell,
+  useSpellSlot,
+  rollSpellDamage,
+  rollSpellPool,
+  getMaxTargets,
+  getSpellRange,
+} from "./rules/spells";
+import { roll, rollDie, rollOnTable } from "./rules/dice";
+import {
+  ActionCost,
+  CombatState,
+  applyDamageToEnemy,
+  createCombatState,
+  rollEnemyInitiative,
+  rollInitiative,
+  getSpellActionCost,
+  grantAction,
+  healCharacter,
+  isImmuneToCondition,
+  placeCombatant,
+  removeCombatant,
+  resolveCharacterDamage,
+  spendAction,
+} from "./rules/combat";
+import {
+  Position,
+  formatSquare,
+  getCombatantsInArea,
+  getDistance,
+  getDistanceBetween,
+  getMovementCost,
+  parseSquare,
+} from "./rules/grid";
+
+interface CombatStart {
+  combat: CombatState;
+  enemyActions: string[]; // what enemies who won initiative did
+}
+
+async function loadGame(roomCode: string) {
+  const game = await getGame(roomCode);
+  if (!game) throw new Error("Game not found");
+  return game;
+}
+
+/**
+ * Apply damage to an enemy in one atomic write. A killed enemy leaves the
+ * initiative order, and combat ends once every enemy is down. Traits that
+ * cheat death (Undead Fortitude) get their say first; `traitLog` has their rolls.
+ */
+export async function damageEnemy(
+  roomCode: string,
+  enemyId: string,
+  amount: number,
+  damageType: DamageType,
+  critical: boolean = false
+): Promise<{ newHp: number; dead: boolean; combatOver: boolean; traitLog: string[] } | null> {
+  let outcome: { newHp: number; dead: boolean; combatOver: boolean; traitLog: string[] } | null = null;
+
+  // Rolled before the write so a retried write doesn't roll again
+  const before = (await getGame(roomCode))?.combat?.enemies.find((e) => e.id === enemyId);
+  const reaction = before ? resolveTraitDamage(before, amount, damageType, critical) : { hp: null, log: [] };
+
+  await mutateGame(roomCode, (game) => {
+    const enemy = game.combat?.enemies.find((e) => e.id === enemyId);
+    if (!game.combat || !enemy) return false;
+
+    let damageResult = applyDamageToEnemy(enemy, amount, damageType);
+    if (damageResult.dead && reaction.hp !== null) damageResult = { newHp: reaction.hp, dead: false };
+    enemy.currentHp = damageResult.newHp;
+    // Getting hurt wakes a monster Sleep put down
+    if (amount > 0 && enemy.conditions.includes("unconscious")) {
+      enemy.conditions = enemy.conditions.filter((c) => c !== "unconscious");
+      game.activeEffects = game.activeEffects.filter(
+        (e) => !(e.targetId === enemyId && e.kind === "condition" && e.key === "unconscious")
+      );
+    }
+    let combatOver = false;
+
+    if (damageResult.dead) {
+      // Remove dead enemy from initiative order
+      game.combat = removeCombatant(game.combat, enemyId);
+
+      // Check if all enemies are dead - end combat
+      if (game.combat.enemies.every((e) => e.currentHp <= 0)) {
+        game.combat = null;
+        game.phase = "exploration";
+        game.currentTurn = null;
+        combatOver = true;
+      }
+    }
+
+    outcome = { ...damageResult, combatOver, traitLog: reaction.log };
+  });
+
+  return outcome;
+}
+
+/**
+ * Spend part of a combatant's turn budget. No-op outside combat.
+ * Returns an error message if they have nothing left to spend.
+ */
+export async function spendTurnResource(
+  roomCode: string,
+  characterId: string,
+  cost: ActionCost
+): Promise<string | null> {
+  let error: string | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    if (!game.combat) return false;
+    const spent = spendAction(game.combat, characterId, cost);
+    if (spent.error) {
+      error = spent.error;
+      return false;
+    }
+    game.combat = spent.combat;
+  });
+
+  return error;
+}
+
+/**
+ * Spend a use of Action Surge for an extra action this turn. Only works in
+ * combat, once per turn, and while a use is left since the last rest.
+ */
+export async function takeActionSurge(
+  roomCode: string,
+  characterId: string
+): Promise<{ error?: string }> {
+  let error: string | undefined = "Game not found";
+
+  await mutateGame(roomCode, (game) => {
+    const char = game.characters.find((c) => c.id === characterId);
+    const feature = char?.features.find((f) => f.name === "Action Surge");
+    if (!char || !feature?.usesPerRest) {
+      error = "Character does not have Action Surge";
+      return false;
+    }
+    if (!game.combat) {
+      error = "Action Surge can only be used in combat";
+      return false;
+    }
+    if (feature.usesPerRest.current <= 0) {
+      error = "Action Surge has no uses remaining (recharges on short or long rest)";
+      return false;
+    }
+
+    const granted = grantAction(game.combat, characterId);
+    if (granted.error) {
+      error = granted.error;
+      return false;
+    }
+
+    game.combat = granted.combat;
+    feature.usesPerRest = { ...feature.usesPerRest, current: feature.usesPerRest.current - 1 };
+    error = undefined;
+  });
+
+  return error ? { error } : {};
+}
+
+/**
+ * Work out who a spell affects: everyone in its area on the battle map, or
+ * the creatures picked, up to as many as the slot allows
+ */
+function getSpellTargets(
+  game: GameState,
+  casterId: string,
+  spell: Spell,
+  slotLevel: number,
+  targetIds: string[],
+  square?: string
+): { targets: string[] } | { error: string } {
+  const combatants = [...game.characters, ...(game.combat?.enemies.filter((e) => e.currentHp > 0) ?? [])];
+  const unknown = targetIds.find((id) => !combatants.some((c) => c.id === id));
+  if (unknown) return { error: `Unknown target: ${unknown}` };
+
+  const map = game.combat?.map;
+  const from = map?.positions[casterId];
+  const range = getSpellRange(spell);
+
+  if (spell.area && map && from) {
+    const aimedAt = square ? parseSquare(square) : map.positions[targetIds[0]];
+    if (!aimedAt) {
+      return { error: square ? `Not a square: ${square} (try something like C4)` : `Pick a square or a target to aim ${spell.name} at` };
+    }
+    if (spell.area.shape === "sphere" && range !== null && getDistance(from, aimedAt) > range) {
+      return { error: `${formatSquare(aimedAt)} is out of ${spell.name}'s range (${range} ft)` };
+    }
+
+    // Cones come out of the caster; spheres are centred where they're aimed
+    const origin = spell.area.shape === "cone" ? from : aimedAt;
+    const caught = getCombatantsInArea(map, origin, spell.area.shape, spell.area.size, aimedAt);
+    return { targets: caught.filter((id) => combatants.some((c) => c.id === id)) };
+  }
+
+  const maxTargets = getMaxTargets(spell, slotLevel);
+  if (!spell.area && targetIds.length > maxTargets) {
+    return { error: `${spell.name} can target ${maxTargets} creature${maxTargets === 1 ? "" : "s"} at level ${slotLevel}` };
+  }
+
+  if (map && range !== null) {
+    const outOfRange = targetIds.find((id) => id !== casterId && (getDistanceBetween(map, casterId, id) ?? 0) > range);
+    const target = combatants.find((c) => c.id === outOfRange);
+    if (target) return { error: `${target.name} is out of ${spell.name}'s range (${range} ft)` };
+  }
+
+  return { targets: targetIds };
+}
+
+/**
+ * Hurt one of a spell's targets. Returns the text for the log.
+ */
+async function dealSpellDamage(roomCode: string, targetId: string, amount: number, damageType: DamageType): Promise<string> {
+  const game = await loadGame(roomCode);
+
+  const character = game.characters.find((c) => c.id === targetId);
+  if (character) {
+    const { result, updates, statusText } = resolveCharacterDamage(character, amount, damageType);
+    await updateCharacter(roomCode, targetId, updates);
+    return ` ${character.name} takes ${result.damageTaken} ${damageType} damage. (${result.newHp}/${character.maxHp} HP)${statusText}`;
+  }
+
+  const enemy = game.combat?.enemies.find((e) => e.id === targetId);
+  if (!enemy) return "";
+  const damageResult = await damageEnemy(roomCode, enemy.id, amount, damageType);
+  const taken = damageResult ? enemy.currentHp - damageResult.newHp : amount;
+  let text = ` ${enemy.name} takes ${taken} ${damageType} damage.`;
+  if (damageResult && damageResult.traitLog.length > 0) text += ` ${damageResult.traitLog.join(". ")}.`;
+  if (damageResult?.dead) {
+    text += ` ${enemy.name} is defeated!`;
+    if (damageResult.combatOver) text += " All enemies have been defeated! Combat ends.";
+  }
+  return text;
+}
+
+/**
+ * Spend the action and the slot (already checked by castSpell) for a spell
+ * in one write, so two casts at once can't both use the last slot.
+ * Returns an error message if either is gone.
+ */
+async function spendSpellCasting(
+  roomCode: string,
+  casterId: string,
+  spell: Spell,
+  slotLevel: number,
+  cost: ActionCost
+): Promise<string | null> {
+  let error: string | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    error = null;
+    const caster = game.characters.find((c) => c.id === casterId);
+    if (!caster || !canCastSpell(caster, spell, slotLevel)) {
+      error = `Cannot cast spell - no level ${slotLevel} spell slots left`;
+      return false;
+    }
+    if (game.combat) {
+      const spent = spendAction(game.combat, casterId, cost);
+      if (spent.error) {
+        error = spent.error;
+        return false;
+      }
+      game.combat = spent.combat;
+    }
+    if (spell.level > 0) caster.spellSlots = useSpellSlot(caster, slotLevel).spellSlots;
+  });
+
+  return error;
+}
+
+/**
+ * Cast a spell: spend the slot and action, then resolve it against each
+ * target - damage rolled once with a save each, conditions, healing, or
+ * Sleep's pool of hit points
+ */
+export async function castSpell(
+  roomCode: string,
+  casterId: string,
+  spellId: string,
+  targetIds: string[] = [],
+  spellLevel?: number,
+  square?: string
+) {
+  const game = await loadGame(roomCode);
+  const caster = game.characters.find((c) => c.id === casterId);
+  if (!caster) return { error: "Caster not found" };
+
+  // Find the spell
+  const allSpells = { ...CANTRIPS, ...SPELLS_LEVEL_1, ...SPELLS_LEVEL_2 };
+  const spell = allSpells[spellId as keyof typeof allSpells];
+  if (!spell) return { error: `Unknown spell: ${spellId}` };
+
+  // The slot has to be a real one on the caster's sheet, at the spell's level or higher
+  const slotLevel = spellLevel ?? spell.level;
+  if (spell.level === 0 && slotLevel !== 0) {
+    return { error: `${spell.name} is a cantrip - it doesn't use a spell slot` };
+  }
+  if (!Number.isInteger(slotLevel) || slotLevel < spell.level) {
+    return { error: `${spell.name} is a level ${spell.level} spell - it can't be cast at level ${slotLevel}` };
+  }
+  if (slotLevel > 9) return { error: "Spell slots only go up to level 9" };
+
+  // Check if caster can cast this spell
+  if (!canCastSpell(caster, spell, slotLevel)) {
+    await addToTranscript(roomCode, {
+      type: "system",
+      content: `${caster.name} cannot cast ${spell.name}: no level ${slotLevel} spell slots left`,
+    });
+    return { error: `Cannot cast spell - no level ${slotLevel} spell slots left` };
+  }
+
+  const targeting = getSpellTargets(game, casterId, spell, slotLevel, targetIds, square);
+  if ("error" in targeting) return { error: targeting.error };
+  const { targets } = targeting;
+  const actionCost = getSpellActionCost(spell.castingTime);
+  const noAction = game.combat && spendAction(game.combat, casterId, actionCost).error;
+  if (noAction) return { error: noAction };
+
+  // Damage is rolled once for everyone, before anything is spent; each target saves on their own
+  const damageRoll = spell.damage && spell.damageType ? rollSpellDamage(spell, slotLevel, false) : null;
+  if (spell.damage && !damageRoll) {
+    return { error: "Failed to roll spell damage" };
+  }
+
+  const spendError = await spendSpellCasting(roomCode, casterId, spell, slotLevel, actionCost);
+  if (spendError) return { error: spendError };
+
+  await setThinking(roomCode, `${caster.name} casts ${spell.name}...`);
+
+  let resultText = `${caster.name} casts ${spell.name}!`;
+  let concentrationMsg = "";
+
+  // Handle concentration
+  if (spell.concentration) {
+    // If already concentrating, end the previous spell
+    if (caster.concentrating) {
+      const prevSpell = [...Object.values(CANTRIPS), ...Object.values(SPELLS_LEVEL_1), ...Object.values(SPELLS_LEVEL_2)]
+        .find((s) => s.id === caster.concentrating);
+      concentrationMsg = ` (Ends concentration on ${prevSpell?.name || "previous spell"})`;
+    }
+    // Start concentrating on new spell
+    await updateCharacter(roomCode, casterId, { concentrating: spellId });
+    concentrationMsg += ` [Concentrating]`;
+  }
+
+  const targetNames = [...game.characters, ...(game.combat?.enemies ?? [])]
+    .filter((c) => targets.includes(c.id))
+    .map((c) => c.name);
+  if (spell.area && targets.length === 0) {
+    resultText += " It catches no one.";
+  } else if (spell.maxTargets && !spell.savingThrow && targets.length > 0) {
+    resultText += ` Targets: ${targetNames.join(", ")}.`;
+  }
+
+  if (damageRoll && targets.length > 0) {
+    resultText += ` Deals ${damageRoll.total} ${spell.damageType} damage.`;
+  }
+
+  const dc = getSpellSaveDC(caster);
+  const heldTargets: string[] = [];
+  for (const targetId of spell.hpPool ? [] : targets) {
+    const target = getEffectTarget(await loadGame(roomCode), targetId);
+    if (!target) continue;
+    if (spell.condition && !damageRoll && isImmuneToCondition(target, spell.condition)) {
+      resultText += ` ${target.name} is immune to being ${spell.condition}.`;
+      continue;
+    }
+
+    const save = spell.savingThrow
+      ? rollSavingThrow(target, spell.savingThrow, dc, "normal", spell.condition ?? spell.damageType)
+      : null;
+    if (save && spell.savingThrow && (damageRoll || spell.condition)) {
+      resultText += ` ${target.name} ${spell.savingThrow.toUpperCase()} save: [${save.roll.natural}] = ${save.total} vs DC ${dc} - ${save.success ? "SUCCESS" : "FAILURE"}`;
+      if (!damageRoll) resultText += ".";
+    }
+
+    if (damageRoll && spell.damageType) {
+      let amount = damageRoll.total;
+      if (save?.success) {
+        amount = spell.halfOnSave ? Math.floor(amount / 2) : 0;
+        resultText += spell.halfOnSave ? " (half damage)." : " (no damage).";
+      } else if (save) {
+        resultText += ".";
+      }
+      if (amount > 0) resultText += await dealSpellDamage(roomCode, targetId, amount, spell.damageType);
+    }
+
+    if (spell.condition && save && !save.success) heldTargets.push(targetId);
+  }
+
+  // Sleep: the lowest HP creatures drop first, until the pool runs out.
+  // Anything that can't be charmed (undead) isn't affected, and neither are elves.
+  const sleepers: string[] = [];
+  if (spell.hpPool) {
+    const pool = rollSpellPool(spell, slotLevel);
+    let remaining = pool?.total ?? 0;
+    resultText += ` Rolls ${remaining} hit points' worth of slumber.`;
+
+    const candidates = [...game.characters, ...(game.combat?.enemies ?? [])]
+      .filter((c) => targets.includes(c.id) && c.currentHp > 0 && !c.conditions.includes("unconscious"))
+      .filter((c) => !isImmuneToCondition(c, "charmed") && !isImmuneToCondition(c, "unconscious"))
+      .filter((c) => !("race" in c && resistsMagicalSleep(c.race)))
+      .sort((a, b) => a.currentHp - b.currentHp);
+    const fallen: string[] = [];
+    for (const creature of candidates) {
+      if (creature.currentHp > remaining) break;
+      remaining -= creature.currentHp;
+      sleepers.push(creature.id);
+      fallen.push(creature.name);
+    }
+    resultText += fallen.length > 0 ? ` ${fallen.join(", ")} fall${fallen.length === 1 ? "s" : ""} asleep!` : " Nobody falls asleep.";
+  }
+
+  // Handle healing spells
+  if (spellId === "cure_wounds" || spellId === "healing_word") {
+    const target = targets.length > 0
+      ? game.characters.find((c) => c.id === targets[0])
+      : caster;
+
+    if (target) {
+      const healAmount = spellId === "cure_wounds"
+        ? rollDie(8) + (caster.spellcastingAbility ? Math.floor((caster.abilities[caster.spellcastingAbility] - 10) / 2) : 0)
+        : rollDie(4) + (caster.spellcastingAbility ? Math.floor((caster.abilities[caster.spellcastingAbility] - 10) / 2) : 0);
+
+      const healResult = healCharacter(target, healAmount);
+      await updateCharacter(roomCode, target.id, { currentHp: healResult.newHp });
+
+      resultText += ` ${target.name} heals ${healAmount} HP. (${healResult.newHp}/${target.maxHp} HP)`;
+    }
+  }
+
+  await addToTranscript(roomCode, {
+    type: "dice",
+    content: resultText + concentrationMsg,
+  });
+
+  const duration = parseDuration(spell.duration);
+  if (duration) {
+    // Spells cast on a chosen few (Bless) run on each of them. A caster who
+    // didn't pick themselves only holds the concentration, which times out with it.
+    const recipients = spell.maxTargets && !spell.savingThrow && targets.length > 0 ? targets : [casterId];
+    const effects: { targetId: string; kind: ActiveEffect["kind"] }[] = recipients.map((targetId) => ({
+      targetId,
+      kind: "spell",
+    }));
+    if (spell.concentration && !recipients.includes(casterId)) effects.push({ targetId: casterId, kind: "concentration" });
+    for (const { targetId, kind } of effects) {
+      await addEffect(
+        roomCode,
+        {
+          targetId,
+          kind,
+          key: spellId,
+          name: spell.name,
+          source: caster.name,
+          concentration: spell.concentration ? { casterId, spellId } : undefined,
+        },
+        duration,
+        casterId
+      );
+    }
+  }
+
+  // Spells that hold a target with a condition (Hold Person). The target
+  // keeps saving at the end of its turns if the spell allows it.
+  const { condition, savingThrow: saveAbility } = spell;
+  for (const targetId of heldTargets) {
+    if (!condition || !saveAbility) break;
+    await applyCondition(roomCode, targetId, condition, `${spell.name} (${caster.name})`, {
+      duration: spell.duration,
+      save: spell.repeatSave ? { ability: saveAbility, dc } : undefined,
+      concentration: spell.concentration ? { casterId, spellId } : undefined,
+      turnOf: casterId,
+    });
+  }
+
+  for (const targetId of sleepers) {
+    await applyCondition(roomCode, targetId, "unconscious", `${spell.name} (${caster.name})`, {
+      duration: spell.duration,
+      turnOf: casterId,
+    });
+  }
+
+  return { success: true, spell: spell.name, targets: targetNames, concentrating: spell.concentration ? spellId : null };
+}
+
+/**
+ * Put a condition on a character or an enemy, tracking how long it lasts
+ * and any save they can repeat to end it
+ */
+export async function applyCondition(
+  roomCode: string,
+  targetId: string,
+  condition: Condition,
+  source: string,
+  { duration, save, concentration, turnOf }: {
+    duration?: string;
+    save?: ActiveEffect["save"];
+    concentration?: ActiveEffect["concentration"];
+    turnOf?: string; // whose turns a duration in rounds counts (default: the target's)
+  } = {}
+) {
+  const game = await loadGame(roomCode);
+  const target = getEffectTarget(game, targetId);
+  if (!target) return { error: "Target not found" };
+
+  // Check if already has this condition
+  if (target.conditions.includes(condition)) {
+    return { error: `${target.name} already has the ${condition} condition` };
+  }
+  if (isImmuneToCondition(target, condition)) {
+    return { error: `${target.name} is immune to being ${condition}` };
+  }
+
+  await setThinking(roomCode, `${target.name} becomes ${condition}...`);
+
+  const newConditions: Condition[] = [...target.conditions, condition];
+  let extraMessage = "";
+
+  if ("concentrating" in target) {
+    const updates: Partial<Character> = { conditions: newConditions };
+
+    // Break concentration if incapacitated
+    const incapacitatingConditions = ["incapacitated", "paralyzed", "petrified", "stunned", "unconscious"];
+    if (incapacitatingConditions.includes(condition) && target.concentrating) {
+      updates.concentrating = null;
+      extraMessage = ` ${target.name} loses concentration!`;
+    }
+
+    // Unconscious also makes you prone
+    if (condition === "unconscious" && !target.conditions.includes("prone")) {
+      updates.conditions = [...newConditions, "prone"];
+    }
+
+    await updateCharacter(roomCode, targetId, updates);
+  } else {
+    // Monsters have no turn spent standing up, so they aren't left prone
+    await updateEnemy(roomCode, targetId, { conditions: newConditions });
+  }
+
+  const parsed = parseDuration(duration);
+  if (parsed || save || concentration) {
+    await addEffect(
+      roomCode,
+      { targetId, kind: "condition", key: condition, name: condition, source, save, concentration },
+      parsed,
+      turnOf
+    );
+  }
+
+  const durationText = duration ? ` (${duration})` : "";
+  const saveText = save ? ` ${save.ability.toUpperCase()} save DC ${save.dc} at the end of each turn to end it.` : "";
+  await addToTranscript(roomCode, {
+    type: "combat",
+    content: `${target.name} is now ${condition.toUpperCase()}${durationText} from ${source}.${saveText}${extraMessage}`,
+  });
+
+  return { applied: condition, target: target.name };
+}
+
+/**
+ * Move a character across the battle map, paying for the squares with
+ * their movement this turn. Enemies block the way; allies can be passed.
+ */
+export async function moveCombatant(roomCode: string, characterId: string, square: string) {
+  const to = parseSquare(square);
+  if (!to) return { error: `Not a square: ${square} (try something like C4)` };
+
+  let error: string | null = null;
+  let moved: { name: string; cost: number; left: number } | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    const combatant = game.combat?.initiativeOrder.find((c) => c.id === characterId);
+    const char = game.characters.find((c) => c.id === characterId);
+    if (!game.combat || !combatant || !char) {
+      error = "Only combatants move on the battle map";
+      return false;
+    }
+
+    const turnError = checkTurn(game, characterId);
+    if (turnError) {
+      error = turnError;
+      return false;
+    }
+    if (char.conditions.some((c) => c === "grappled" || c === "restrained")) {
+      error = `${char.name} can't move while ${char.conditions.includes("grappled") ? "grappled" : "restrained"}`;
+      return false;
+    }
+
+    const { map } = game.combat;
+    const from = map.positions[characterId];
+    if (!from) {
+      error = `${char.name} isn't on the battle map`;
+      return false;
+    }
+
+    const enemies = game.combat.enemies
+      .filter((e) => e.currentHp > 0)
+      .map((e) => map.positions[e.id])
+      .filter((p): p is Position => !!p);
+    const path = getMovementCost(map, from, to, enemies);
+    if ("error" in path) {
+      error = path.error;
+      return false;
+    }
+    if (path.cost > combatant.resources.movement) {
+      error = `${formatSquare(to)} is ${path.cost} ft away - ${char.name} has ${combatant.resources.movement} ft of movement left`;
+      return false;
+    }
+
+    game.combat = placeCombatant(game.combat, characterId, to, path.cost);
+    moved = { name: char.name, cost: path.cost, left: combatant.resources.movement - path.cost };
+  });
+
+  if (error || !moved) return { error: error ?? "Game not found" };
+  const { name, cost, left } = moved;
+
+  await addToTranscript(roomCode, {
+    type: "combat",
+    content: `${name} moves ${cost} ft to ${formatSquare(to)}.`,
+  });
+
+  return { square: formatSquare(to), spent: cost, movementLeft: left };
+}
+
+/**
+ * Equip a weapon, armor or shield from a character's inventory
+ */
+export async function equipItem(roomCode: string, characterId: string, itemId: string) {
+  const game = await loadGame(roomCode);
+  const char = game.characters.find((c) => c.id === characterId);
+  if (!char) return { error: "Character not found" };
+
+  const item = char.inventory.find((i) => i.id === itemId);
+  if (!item) return { error: "Item not found in inventory" };
+
+  await setThinking(roomCode, `${char.name} equips ${item.name}...`);
+
+  const updates: Partial<Character> = {};
+  let resultMessage = "";
+
+  if (item.type === "weapon") {
+    updates.equippedWeapon = itemId;
+    resultMessage = `${char.name} equips ${item.name}.`;
+  } else if (item.type === "armor") {
+    const armorItem = item as Armor;
+    if (armorItem.armorType === "shield") {
+      updates.equippedShield = itemId;
+      resultMessage = `${char.name} equips ${item.name}.`;
+    } else {
+      updates.equippedArmor = itemId;
+      // Recalculate AC
+      const newAC = calculateAC(
+        { ...char, equippedArmor: itemId },
+        armorItem,
+        !!char.equippedShield
+      );
+      updates.armorClass = newAC;
+      resultMessage = `${char.name} equips ${item.name}. (AC: ${newAC})`;
+    }
+  } else {
+    return { error: `Cannot equip ${item.name} - not a weapon or armor` };
+  }
+
+  await updateCharacter(roomCode, characterId, updates);
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: resultMessage,
+  });
+
+  return { equipped: item.name, character: char.name };
+}
+
+/**
+ * Use a consumable, on the character or another party member
+ */
+export async function consumeItem(roomCode: string, characterId: string, itemId: string, targetId?: string) {
+  const game = await loadGame(roomCode);
+  const char = game.characters.find((c) => c.id === characterId);
+  if (!char) return { error: "Character not found" };
+
+  const item = char.inventory.find((i) => i.id === itemId);
+  if (!item) return { error: "Item not found in inventory" };
+
+  if (item.type !== "potion") {
+    return { error: `Cannot use ${item.name} - not a consumable` };
+  }
+
+  const target = targetId
+    ? game.characters.find((c) => c.id === targetId)
+    : char;
+  if (!target) return { error: "Target not found" };
+
+  const actionError = await spendTurnResource(roomCode, characterId, "action");
+  if (actionError) return { error: actionError };
+
+  await setThinking(roomCode, `${char.name} uses ${item.name}...`);
+
+  let resultMessage = "";
+
+  // Handle potions
+  if (itemId === "potion_healing" || item.name.toLowerCase().includes("healing")) {
+    // Healing potion: 2d4+2
+    const healRoll = roll("2d4+2");
+    const healResult = healCharacter(target, healRoll.total);
+    await updateCharacter(roomCode, target.id, { currentHp: healResult.newHp });
+    resultMessage = `${char.name} uses ${item.name}! ${target.name} heals ${healRoll.total} HP. (${healResult.newHp}/${target.maxHp} HP)`;
+  } else if (itemId === "potion_greater_healing" || item.name.toLowerCase().includes("greater healing")) {
+    // Greater Healing potion: 4d4+4
+    const healRoll = roll("4d4+4");
+    const healResult = healCharacter(target, healRoll.total);
+    await updateCharacter(roomCode, target.id, { currentHp: healResult.newHp });
+    resultMessage = `${char.name} uses ${item.name}! ${target.name} heals ${healRoll.total} HP. (${healResult.newHp}/${target.maxHp} HP)`;
+  } else {
+    resultMessage = `${char.name} uses ${item.name}.`;
+  }
+
+  // Remove item from inventory (or reduce quantity)
+  const newInventory = char.inventory
+    .map((i) => {
+      if (i.id === itemId) {
+        if (i.quantity > 1) {
+          return { ...i, quantity: i.quantity - 1 };
+        }
+        return null; // Remove item
+      }
+      return i;
+    })
+    .filter((i): i is InventoryItem => i !== null);
+
+  await updateCharacter(roomCode, characterId, { inventory: newInventory });
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: resultMessage,
+  });
+
+  return { used: item.name, character: char.name };
+}
+
+/**
+ * Start combat: roll initiative for the party and a group of enemies,
+ * then let any enemies who won initiative act
+ */
+export async function beginCombat(
+  roomCode: string,
+  enemyType: string,
+  count: number,
+  environment: string
+): Promise<CombatStart | { error: string }> {
+  const game = await loadGame(roomCode);
+  await setThinking(roomCode, "Combat begins...");
+
+  const enemies = createEnemyGroup(enemyType, count);
+  if (enemies.length === 0) {
+    return { error: "Unknown enemy type" };
+  }
+
+  // Roll initiative for all
+  const playerInits = game.characters.map((c) => ({
+    character: c,
+    initiative: rollInitiative(c).total,
+  }));
+
+  const enemyInits = enemies.map((e) => ({
+    enemy: e,
+    initiative: rollEnemyInitiative(e).total,
+  }));
+
+  const combat = createCombatState(playerInits, enemyInits, environment);
+
+  await startCombat(roomCode, combat);
+
+  // Log initiative order
+  const initOrder = combat.initiativeOrder
+    .map((c) => `${c.name}: ${c.initiative}`)
+    .join(", ");
+
+  await addToTranscript(roomCode, {
+    type: "combat",
+    content: `COMBAT BEGINS! Initiative: ${initOrder}`,
+  });
+
+  // Enemies that beat the party on initiative act straight away
+  const enemyActions = await resolveEnemyTurns(roomCode);
+
+  return { combat, enemyActions };
+}
+
+/**
+ * Roll on one of the adventure's encounter tables and start the fight
+ */
+export async function rollEncounter(
+  roomCode: string,
+  tableId: string,
+  environment: string
+): Promise<(CombatStart & { enemyType: string; count: number }) | { error: string }> {
+  const game = await loadGame(roomCode);
+  if (game.combat) return { error: "Already in combat" };
+
+  const table = getAdventure(game.adventureId).encounterTables[tableId];
+  if (!table) return { error: `Unknown encounter table: ${tableId}` };
+
+  const { enemyType, count } = rollOnTable(table);
+  const result = await beginCombat(roomCode, enemyType, count, environment);
+  if ("error" in result) return result;
+
+  return { enemyType, count, ...result };
+}
+
+/**
+ * Move the story to the next beat, if the adventure's graph allows it,
+ * and fire the beat's scripted events
+ */
+export async function advanceStory(roomCode: string, beatId: string) {
+  let error: string | null = null;
+  let adventure: Adventure | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    adventure = getAdventure(game.adventureId);
+    error = checkBeatTransition(adventure, game.storyBeat, beatId);
+    if (error) return false;
+    game.storyBeat = beatId;
+  });
+
+  if (error || !adventure) return { error: error ?? "Game not found" };
+
+  const beat = getStoryBeat(adventure, beatId)!;
+  const events: string[] = [];
+
+  for (const event of beat.onEnter ?? []) {
+    if (event.type === "narration") {
+      await addToTranscript(roomCode, { type: "narration", content: event.text });
+      events.push(`Narrated: ${event.text}`);
+    } else if (event.type === "encounter") {
+      // The DM may already have started this fight by hand
+      const result = await rollEncounter(roomCode, event.table, event.environment);
+      if ("error" in result) continue;
+      events.push(`Encounter: ${result.count} ${result.enemyType}`, ...result.enemyActions);
+    }
+  }
+
+  return { beat: beatId, desc: beat.desc, next: beat.next, events };
+}
+
+/**
+ * Give a character an item. Known weapons, armor and gear come with their full stats.
+ */
+export async function giveItem(
+  roomCode: string,
+  characterId: string,
+  itemName: string,
+  itemType: InventoryItem["type"],
+  quantity?: number,
+  description?: string
+) {
+  const game = await loadGame(roomCode);
+  const char = game.characters.find((c) => c.id === characterId);
+  if (!char) return { error: "Character not found" };
+
+  await setThinking(roomCode, `${char.name} receives ${itemName}...`);
+
+  // Create new item
+  const newItem: InventoryItem = {
+    id: `${itemType}_${Date.now()}`,
+    name: itemName,
+    type: itemType,
+    quantity: quantity || 1,
+    weight: 1, // Default weight
+    description,
+  };
+
+  // Check if it's a known item from equipment database
+  const knownWeapon = Object.values(WEAPONS).find(
+    (w) => w.name.toLowerCase() === itemName.toLowerCase()
+  );
+  const knownArmor = Object.values(ARMOR).find(
+    (a) => a.name.toLowerCase() === itemName.toLowerCase()
+  );
+  const knownGear = Object.values(GEAR).find(
+    (g) => g.name.toLowerCase() === itemName.toLowerCase()
+  );
+
+  let itemToAdd: InventoryItem = newItem;
+  if (knownWeapon) {
+    itemToAdd = { ...knownWeapon, quantity: quantity || 1 };
+  } else if (knownArmor) {
+    itemToAdd = { ...knownArmor, quantity: quantity || 1 };
+  } else if (knownGear) {
+    itemToAdd = { ...knownGear, quantity: quantity || 1 };
+  }
+
+  const newInventory = [...char.inventory, itemToAdd];
+  await updateCharacter(roomCode, characterId, { inventory: newInventory });
+
+  const qtyText = (quantity || 1) > 1 ? `${quantity}x ` : "";
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: `${char.name} receives ${qtyText}${itemName}.`,
+  });
+
+  return { item: itemName, character: char.name };
+}
+
+/**
+ * Give a character gold
+ */
+export async function giveGold(roomCode: string, characterId: string, amount: number, source: string) {
+  const game = await loadGame(roomCode);
+  const char = game.characters.find((c) => c.id === characterId);
+  if (!char) return { error: "Character not found" };
+
+  await setThinking(roomCode, `${char.name} receives gold...`);
+
+  const newGold = char.gold + amount;
+  await updateCharacter(roomCode, characterId, { gold: newGold });
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: `${char.name} receives ${amount} gold from ${source}. (Total: ${newGold} gp)`,
+  });
+
+  return { gold: amount, newTotal: newGold, character: char.name };
+}
+
+/**
+ * Roll on one of the adventure's loot tables and hand the result to a character
+ */
+export async function rollLoot(roomCode: string, tableId: string, characterId: string, source: string) {
+  const game = await loadGame(roomCode);
+  const table = getAdventure(game.adventureId).lootTables[tableId];
+  if (!table) return { error: `Unknown loot table: ${tableId}` };
+
+  const loot = rollOnTable(table);
+  if (loot.gold) {
+    return giveGold(roomCode, characterId, roll(loot.gold).total, source);
+  }
+  return giveItem(roomCode, characterId, loot.item!, loot.itemType!, loot.quantity, loot.description);
+}
+
+/**
+ * Travel along one of the current location's exits. Time passes on the way,
+ * and the destination may roll for an encounter on arrival.
+ */
+export async function moveParty(roomCode: string, locationId: string) {
+  let error: string | null = null;
+  let travel: { to: string; minutes: number; arrival: number } | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    if (game.combat) {
+      error = "Can't travel during combat";
+      return false;
+    }
+
+    const adventure = getAdventure(game.adventureId);
+    const world = game.worldState;
+    const exit = getVisibleExits(adventure, world.location, world.discoveredLocations)
+      .find((e) => e.to === locationId);
+    if (!exit) {
+      error = getLocation(adventure, locationId)
+        ? `No way to ${locationId} from ${world.location}`
+        : `Unknown location: ${locationId}`;
+      return false;
+    }
+
+    world.location = locationId;
+    if (!world.discoveredLocations.includes(locationId)) {
+      world.discoveredLocations.push(locationId);
+    }
+
+    travel = {
+      to: getLocation(adventure, locationId)!.name,
+      minutes: exit.minutes,
+      arrival: world.clock + exit.minutes,
+    };
+  });
+
+  if (error || !travel) return { error: error ?? "Game not found" };
+  const { to, minutes, arrival } = travel;
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: `The party travels to ${to} (${formatDuration(minutes)}). It is now ${formatClock(arrival)}.`,
+  });
+  const expired = await passTime(roomCode, minutes);
+
+  // Some places are dangerous to arrive at
+  const game = await loadGame(roomCode);
+  const location = getLocation(getAdventure(game.adventureId), locationId)!;
+  let encounter: Awaited<ReturnType<typeof rollEncounter>> | null = null;
+  if (location.encounterTable && location.encounterChance > 0 && rollDie(100) <= location.encounterChance) {
+    encounter = await rollEncounter(roomCode, location.encounterTable, location.name);
+  }
+
+  return { location: locationId, name: to, time: formatClock(arrival), expired, description: location.description, encounter };
+}
+
+/**
+ * Mark a location as known to the party - it shows on the map, and hidden
+ * paths to it open up
+ */
+export async function discoverLocation(roomCode: string, locationId: string) {
+  let error: string | null = null;
+  let name = locationId;
+
+  await mutateGame(roomCode, (game) => {
+    const location = getLocation(getAdventure(game.adventureId), locationId);
+    if (!location) {
+      error = `Unknown location: ${locationId}`;
+      return false;
+    }
+    if (game.worldState.discoveredLocations.includes(locationId)) {
+      error = `${location.name} is already on the map`;
+      return false;
+    }
+    name = location.name;
+    game.worldState.discoveredLocations.push(locationId);
+  });
+
+  if (error) return { error };
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: `New location discovered: ${name}`,
+  });
+
+  return { discovered: locationId, name };
+}
+
+/**
+ * Give every character the same XP - combat victories and finished quests
+ */
+export async function awardXp(roomCode: string, xp: number): Promise<void> {
+  await mutateGame(roomCode, (game) => {
+    if (xp <= 0) return false;
+    for (const char of game.characters) char.xp += xp;
+  });
+}
+
+/**
+ * Put a new quest on the table. It shows in the journal as offered until
+ * the party takes it on.
+ */
+export async function offerQuest(
+  roomCode: string,
+  { title, description, giver, objectives, reward }: Omit<Quest, "id" | "state" | "objectives"> & { objectives: string[] }
+) {
+  const id = getQuestId(title);
+  if (!id) return { error: "Quests need a title" };
+
+  let error: string | null = null;
+  let quest: Quest | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    if (game.quests[id]) {
+      error = `There's already a quest called ${game.quests[id].title}`;
+      return false;
+    }
+    if (giver && !game.npcs[giver]) {
+      error = `Unknown NPC: ${giver}`;
+      return false;
+    }
+    quest = {
+      id,
+      title,
+      description,
+      giver,
+      state: "offered",
+      objectives: objectives.map((text, i) => ({ id: `o${i + 1}`, text })),
+      reward,
+    };
+    game.quests[id] = quest;
+  });
+
+  if (error || !quest) return { error: error ?? "Game not found" };
+  const offered: Quest = quest;
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: `Quest offered: ${offered.title} (reward: ${formatReward(offered)})`,
+  });
+
+  return { quest: offered.id, objectives: offered.objectives };
+}
+
+/**
+ * Accept a quest, tick off objectives, or add ones the party uncovers
+ */
+export async function updateQuest(
+  roomCode: string,
+  questId: string,
+  { accept, completeObjectives = [], addObjectives = [] }: { accept?: boolean; completeObjectives?: string[]; addObjectives?: string[] }
+) {
+  let error: string | null = null;
+  const log: string[] = [];
+  let progress = { done: 0, total: 0 };
+
+  await mutateGame(roomCode, (game) => {
+    log.length = 0;
+    const quest = game.quests[questId];
+    if (!quest) {
+      error = `Unknown quest: ${questId}`;
+      return false;
+    }
+
+    if (accept) {
+      if (quest.state !== "offered") {
+        error = `${quest.title} is already ${quest.state}`;
+        return false;
+      }
+      quest.state = "active";
+      log.push(`Quest accepted: ${quest.title}`);
+    }
+
+    if ((completeObjectives.length > 0 || addObjectives.length > 0) && quest.state !== "active") {
+      error = `${quest.title} is ${quest.state}, not active`;
+      return false;
+    }
+
+    for (const text of addObjectives) {
+      const objective = { id: `o${quest.objectives.length + 1}`, text };
+      quest.objectives.push(objective);
+      log.push(`New objective (${quest.title}): ${text}`);
+    }
+
+    for (const objectiveId of completeObjectives) {
+      const objective = quest.objectives.find((o) => o.id === objectiveId);
+      if (!objective) {
+        error = `${quest.title} has no objective ${objectiveId}`;
+        return false;
+      }
+      if (isObjectiveDone(game.worldState, questId, objectiveId)) continue;
+      game.worldState.questFlags[getObjectiveFlag(questId, objectiveId)] = true;
+      log.push(`Objective complete (${quest.title}): ${objective.text}`);
+    }
+
+    progress = getQuestProgress(game.worldState, quest);
+  });
+
+  if (error) return { error };
+
+  for (const line of log) {
+    await addToTranscript(roomCode, { type: "system", content: line });
+  }
+
+  return { quest: questId, updates: log, progress };
+}
+
+/**
+ * Close a quest. Completing it pays out the reward: XP and gold for everyone,
+ * items to one character.
+ */
+export async function completeQuest(
+  roomCode: string,
+  questId: string,
+  outcome: "completed" | "failed",
+  recipientId?: string
+) {
+  let error: string | null = null;
+  let quest: Quest | null = null;
+
+  await mutateGame(roomCode, (game) => {
+    const current = game.quests[questId];
+    if (!current) {
+      error = `Unknown quest: ${questId}`;
+      return false;
+    }
+    if (current.state === "completed" || current.state === "failed") {
+      error = `${current.title} is already ${current.state}`;
+      return false;
+    }
+    if (outcome === "completed" && current.state !== "active") {
+      error = `${current.title} hasn't been accepted yet`;
+      return false;
+    }
+    if (outcome === "completed" && current.reward.items.length > 0) {
+      if (!game.characters.some((c) => c.id === recipientId)) {
+        error = "Pick a character to receive the reward items";
+        return false;
+      }
+    }
+    current.state = outcome;
+    quest = current;
+  });
+
+  if (error || !quest) return { error: error ?? "Game not found" };
+  const closed: Quest = quest;
+
+  await addToTranscript(roomCode, {
+    type: "system",
+    content: outcome === "completed" ? `Quest complete: ${closed.title}!` : `Quest failed: ${closed.title}.`,
+  });
+  if (outcome === "failed") return { quest: questId, outcome };
+
+  const { xp, gold, items } = closed.reward;
+  if (xp > 0) {
+    await awardXp(roomCode, xp);
+    await addToTranscript(roomCode, { type: "system", content: `Each character gains ${xp} XP.` });
+  }
+  if (gold > 0) {
+    const game = await loadGame(roomCode);
+    for (const char of game.characters) {
+      await giveGold(roomCode, char.id, gold, closed.title);
+    }
+  }
+  for (const item of items) {
+    await giveItem(roomCode, recipientId!, item.name, item.type);
+  }
+
+  return { quest: questId, outcome, reward: formatReward(closed) };
+}
@@ -0,0 +1,175 @@
+// Adventure modules - everything one adventure needs (intro, lore, locations,
+// story beats, NPCs, encounter and loot tables) as JSON in src/adventures.
+// To add one, drop a JSON file there and register it in ADVENTURES below.
+
+import { z } from "zod";
+import { ENEMIES } from "./rules/enemies";
+import { DiceExpressionError, parseDiceExpression } from "./rules/dice";
+import { LIGHT_LEVELS, TIMES_OF_DAY } from "./clock";
+import crimsonCitadel from "../adventures/crimson-citadel.json";
+
+export const DEFAULT_ADVENTURE_ID = "crimson-citadel";
+
+const beatEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("narration"), text: z.string().min(1) }),
+  z.object({ type: z.literal("encounter"), table: z.string(), environment: z.string() }),
+]);
+
+const storyBeatSchema = z.object({
+  desc: z.string().min(1),
+  act: z.number().int().min(1),
+  next: z.array(z.string()),
+  onEnter: z.array(beatEventSchema).optional(),
+});
+
+const exitSchema = z.object({
+  to: z.string(),
+  minutes: z.number().int().min(1).describe("Travel time"),
+  hidden: z.boolean().default(false).describe("Only usable once the destination has been discovered"),
+  description: z.string().optional(),
+});
+
+const locationSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  exits: z.array(exitSchema).default([]),
+  encounterTable: z.string().optional(),
+  encounterChance: z.number().int().min(0).max(100).default(0).describe("Percent chance of an encounter on arrival"),
+  light: z.enum(LIGHT_LEVELS).optional().describe("Lighting that doesn't follow the time of day, e.g. dark for a cellar"),
+});
+
+const npcSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  voice: z.string(),
+  secret: z.string(),
+  attitude: z.number().int().min(-100).max(100).default(0),
+});
+
+const encounterSchema = z.object({
+  enemyType: z.string(),
+  count: z.number().int().min(1).max(10),
+  weight: z.number().int().min(1).default(1),
+});
+
+const lootSchema = z
+  .object({
+    item: z.string().optional(),
+    itemType: z.enum(["weapon", "armor", "shield", "potion", "tool", "gear", "treasure"]).optional(),
+    quantity: z.number().int().min(1).default(1),
+    description: z.string().optional(),
+    gold: z.string().optional().describe("Dice notation, e.g. 2d6"),
+    weight: z.number().int().min(1).default(1),
+  })
+  .refine((loot) => !!loot.gold !== !!loot.item, "A loot entry has either gold or an item")
+  .refine((loot) => !loot.item || !!loot.itemType, "Loot items need an itemType");
+
+export const adventureSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/, "Adventure ids are lowercase letters, digits and dashes"),
+    title: z.string().min(1),
+    summary: z.string(),
+    intro: z.string().min(1),
+    lore: z.string(),
+    startingLocation: z.string(),
+    startingTimeOfDay: z.enum(TIMES_OF_DAY),
+    startBeat: z.string(),
+    locations: z.record(z.string(), locationSchema),
+    beats: z.record(z.string(), storyBeatSchema),
+    npcs: z.record(z.string(), npcSchema),
+    encounterTables: z.record(z.string(), z.array(encounterSchema).min(1)),
+    lootTables: z.record(z.string(), z.array(lootSchema).min(1)),
+  })
+  .superRefine((adventure, ctx) => {
+    const issue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: "custom", path, message });
+
+    if (!adventure.locations[adventure.startingLocation]) {
+      issue(["startingLocation"], `Unknown location: ${adventure.startingLocation}`);
+    }
+
+    for (const [id, location] of Object.entries(adventure.locations)) {
+      for (const exit of location.exits) {
+        if (!adventure.locations[exit.to]) issue(["locations", id, "exits"], `Unknown location: ${exit.to}`);
+      }
+      if (location.encounterTable && !adventure.encounterTables[location.encounterTable]) {
+        issue(["locations", id, "encounterTable"], `Unknown encounter table: ${location.encounterTable}`);
+      }
+    }
+
+    if (!adventure.beats[adventure.startBeat]) {
+      issue(["startBeat"], `Unknown beat: ${adventure.startBeat}`);
+    }
+
+    for (const [id, beat] of Object.entries(adventure.beats)) {
+      for (const next of beat.next) {
+        if (!adventure.beats[next]) issue(["beats", id, "next"], `Unknown beat: ${next}`);
+      }
+      for (const event of beat.onEnter ?? []) {
+        if (event.type === "encounter" && !adventure.encounterTables[event.table]) {
+          issue(["beats", id, "onEnter"], `Unknown encounter table: ${event.table}`);
+        }
+      }
+    }
+
+    for (const [id, table] of Object.entries(adventure.encounterTables)) {
+      for (const encounter of table) {
+        if (!ENEMIES[encounter.enemyType]) {
+          issue(["encounterTables", id], `Unknown enemy type: ${encounter.enemyType}`);
+        }
+      }
+    }
+
+    for (const [id, table] of Object.entries(adventure.lootTables)) {
+      for (const loot of table) {
+        if (!loot.gold) continue;
+        try {
+          parseDiceExpression(loot.gold);
+        } catch (error) {
+          if (!(error instanceof DiceExpressionError)) throw error;
+          issue(["lootTables", id], error.message);
+        }
+      }
+    }
+  });
+
+export type Adventure = z.infer<typeof adventureSchema>;
+export type StoryBeat = z.infer<typeof storyBeatSchema>;
+export type AdventureLocation = z.infer<typeof locationSchema>;
+export type LocationExit = z.infer<typeof exitSchema>;
+export type BeatEvent = z.infer<typeof beatEventSchema>;
+export type LootEntry = z.infer<typeof lootSchema>;
+
+// Validated when the module loads, so a broken adventure fails the build
+// rather than the first game that uses it
+function loadAdventure(source: unknown): Adventure {
+  const parsed = adventureSchema.safeParse(source);
+  if (!parsed.success) {
+    const id = (source as { id?: string })?.id ?? "unknown";
+    const problems = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid adventure module ${id}: ${problems}`);
+  }
+  return parsed.data;
+}
+
+export const ADVENTURES: Record<string, Adventure> = Object.fromEntries(
+  [crimsonCitadel].map(loadAdventure).map((a) => [a.id, a])
+);
+
+/**
+ * The adventure a room is playing. Rooms whose module has since been
+ * removed fall back to the default.
+ */
+export function getAdventure(adventureId: string | undefined): Adventure {
+  return (adventureId && ADVENTURES[adventureId]) || ADVENTURES[DEFAULT_ADVENTURE_ID];
+}
+
+// What the landing page shows of an adventure
+export type AdventureSummary = Pick<Adventure, "id" | "title" | "summary">;
+
+/**
+ * Title and blurb for every adventure, for the landing page
+ */
+export function listAdventures(): AdventureSummary[] {
+  return Object.values(ADVENTURES).map(({ id, title, summary }) => ({ id, title, summary }));
+}
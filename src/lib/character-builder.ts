@@ -0,0 +1,154 @@
+// Character builder - turns a player's creation choices into a full Character.
+// Runs on the server so clients can't hand us whatever stats they like;
+// the creation screen uses it too, to preview the result.
+
+import { z } from "zod";
+import {
+  Abilities,
+  Ability,
+  Armor,
+  Character,
+  CharacterClass,
+  Race,
+  Skill,
+  calculateAC,
+  createEmptySpellSlots,
+  getModifier,
+} from "./character";
+import { CLASSES, getMaxHp, getSpellSlots } from "./rules/classes";
+import { RACES, applyRacialBonuses } from "./rules/races";
+import { getStartingEquipment } from "./rules/equipment";
+import { getStartingCantrips, getStartingSpells } from "./rules/spells";
+
+// Scores are assigned from the standard array, before racial bonuses
+export const STANDARD_ARRAY = [15, 14, 13, 12, 10, 8];
+
+export const MAX_NAME_LENGTH = 40;
+
+const ABILITIES: Ability[] = ["strength", "dexterity", "constitution", "intelligence", "wisdom", "charisma"];
+
+export const characterChoicesSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(MAX_NAME_LENGTH, `Name must be at most ${MAX_NAME_LENGTH} characters`),
+    class: z.enum(Object.keys(CLASSES) as [CharacterClass, ...CharacterClass[]]),
+    race: z.enum(Object.keys(RACES) as [Race, ...Race[]]),
+    abilities: z.object({
+      strength: z.number().int(),
+      dexterity: z.number().int(),
+      constitution: z.number().int(),
+      intelligence: z.number().int(),
+      wisdom: z.number().int(),
+      charisma: z.number().int(),
+    }),
+    skills: z.array(z.string()),
+  })
+  .superRefine((choices, ctx) => {
+    const scores = ABILITIES.map((a) => choices.abilities[a]).sort((a, b) => b - a);
+    if (scores.some((score, i) => score !== STANDARD_ARRAY[i])) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["abilities"],
+        message: `Ability scores must use the standard array (${STANDARD_ARRAY.join(", ")}), each exactly once`,
+      });
+    }
+
+    const classData = CLASSES[choices.class];
+    const invalid = choices.skills.filter((s) => !classData.skillChoices.includes(s as Skill));
+    if (invalid.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["skills"],
+        message: `${classData.displayName}s can't pick ${invalid.join(", ")}`,
+      });
+    }
+    if (choices.skills.length !== classData.numSkillChoices || new Set(choices.skills).size !== choices.skills.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["skills"],
+        message: `Pick exactly ${classData.numSkillChoices} different skills`,
+      });
+    }
+  });
+
+export type CharacterChoices = Omit<z.infer<typeof characterChoicesSchema>, "skills"> & {
+  skills: Skill[];
+};
+
+/**
+ * Default choices for a class - its recommended scores and quick-start skills
+ */
+export function getDefaultChoices(name: string, characterClass: CharacterClass, race: Race): CharacterChoices {
+  const classData = CLASSES[characterClass];
+  return {
+    name,
+    class: characterClass,
+    race,
+    abilities: { ...classData.recommendedAbilities },
+    skills: [...classData.defaultSkills],
+  };
+}
+
+/**
+ * Build a level 1 character from validated choices. Everything else
+ * (HP, AC, proficiencies, equipment, spells) comes from the class and race.
+ */
+export function buildCharacter(playerId: string, choices: CharacterChoices): Character {
+  const classData = CLASSES[choices.class];
+  const raceData = RACES[choices.race];
+
+  const abilities: Abilities = applyRacialBonuses(choices.abilities, choices.race);
+  const startingEquipment = getStartingEquipment(classData.startingEquipment);
+  const maxHp = getMaxHp(choices.class, 1, getModifier(abilities.constitution));
+  const caster = choices.class === "wizard" || choices.class === "cleric" ? choices.class : null;
+
+  const character: Character = {
+    id: crypto.randomUUID(),
+    playerId,
+    name: choices.name.trim(),
+    race: choices.race,
+    class: choices.class,
+    level: 1,
+    xp: 0,
+    background: "",
+    abilities,
+    maxHp,
+    currentHp: maxHp,
+    tempHp: 0,
+    armorClass: 10 + getModifier(abilities.dexterity), // Recalculated with armor below
+    speed: raceData.speed,
+    proficiencyBonus: 2,
+    hitDice: { total: 1, current: 1, die: classData.hitDie },
+    savingThrows: [...classData.savingThrows],
+    skills: [...new Set([...choices.skills, ...(raceData.skillProficiencies ?? [])])],
+    languages: [...new Set(["Common", ...raceData.languages])],
+    armorProficiencies: [...classData.armorProficiencies],
+    weaponProficiencies: [...classData.weaponProficiencies],
+    toolProficiencies: [...classData.toolProficiencies],
+    inventory: startingEquipment,
+    equippedArmor: null,
+    equippedWeapon: null,
+    equippedShield: null,
+    gold: classData.startingGold,
+    spellcastingAbility: classData.spellcastingAbility,
+    spellSlots: classData.spellcastingAbility ? getSpellSlots(choices.class, 1) : createEmptySpellSlots(),
+    knownSpells: caster ? getStartingSpells(caster) : [],
+    preparedSpells: [],
+    cantripsKnown: caster ? getStartingCantrips(caster) : [],
+    features: classData.features.filter((f) => f.level <= 1),
+    conditions: [],
+    deathSaves: { successes: 0, failures: 0 },
+    concentrating: null,
+  };
+
+  // Equip starting gear and work out AC from it
+  const armorItem = startingEquipment.find((i) => i.type === "armor" && i.id !== "shield") as Armor | undefined;
+  const shield = startingEquipment.find((i) => i.id === "shield");
+  const weapon = startingEquipment.find((i) => i.type === "weapon");
+
+  character.equippedArmor = armorItem?.id ?? null;
+  character.equippedShield = shield?.id ?? null;
+  character.equippedWeapon = weapon?.id ?? null;
+  character.armorClass = calculateAC(character, armorItem || null, !!shield);
+
+  return character;
+}
@@ -10,17 +10,21 @@ export type Skill =
   | "performance" | "persuasion" | "religion" | "sleight_of_hand"
   | "stealth" | "survival";
 
-export type Condition =
-  | "blinded" | "charmed" | "deafened" | "frightened"
-  | "grappled" | "incapacitated" | "invisible" | "paralyzed"
-  | "petrified" | "poisoned" | "prone" | "restrained"
-  | "stunned" | "unconscious" | "exhaustion";
-
-export type DamageType =
-  | "slashing" | "piercing" | "bludgeoning"
-  | "fire" | "cold" | "lightning" | "thunder"
-  | "poison" | "acid" | "necrotic" | "radiant"
-  | "force" | "psychic";
+export const CONDITIONS = [
+  "blinded", "charmed", "deafened", "frightened",
+  "grappled", "incapacitated", "invisible", "paralyzed",
+  "petrified", "poisoned", "prone", "restrained",
+  "stunned", "unconscious", "exhaustion",
+] as const;
+export type Condition = (typeof CONDITIONS)[number];
+
+export const DAMAGE_TYPES = [
+  "slashing", "piercing", "bludgeoning",
+  "fire", "cold", "lightning", "thunder",
+  "poison", "acid", "necrotic", "radiant",
+  "force", "psychic",
+] as const;
+export type DamageType = (typeof DAMAGE_TYPES)[number];
 
 export interface Abilities {
   strength: number;
@@ -78,9 +82,20 @@ export interface Spell {
   damage?: string;          // e.g., "1d10"
   damageType?: DamageType;
   savingThrow?: Ability;
+  condition?: Condition;    // imposed on a failed save
+  repeatSave?: boolean;     // the target saves again at the end of each of its turns
+  halfOnSave?: boolean;     // a successful save halves the damage instead of avoiding it
+  area?: SpellArea;         // everyone in the area is affected
+  maxTargets?: number;      // creatures it can pick, one more per slot level above its own
+  hpPool?: { dice: string; perSlotLevel: number }; // Sleep: HP of creatures affected, extra dice per slot level
   higherLevels?: string;
 }
 
+export interface SpellArea {
+  shape: "cone" | "sphere";
+  size: number;             // feet: a cone's length or a sphere's radius
+}
+
 export type SpellSchool =
   | "abjuration" | "conjuration" | "divination" | "enchantment"
   | "evocation" | "illusion" | "necromancy" | "transmutation";
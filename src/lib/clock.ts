@@ -0,0 +1,122 @@
+// Game clock - minutes since midnight on the first day of the adventure.
+// The time of day is derived from it. Pure, so the room page can use it too.
+
+export const TIMES_OF_DAY = ["dawn", "morning", "noon", "afternoon", "evening", "twilight", "night"] as const;
+export type TimeOfDay = (typeof TIMES_OF_DAY)[number];
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const SHORT_REST_MINUTES = 60;
+export const LONG_REST_MINUTES = 8 * 60;
+export const ROUNDS_PER_MINUTE = 10; // a combat round is 6 seconds
+
+// When each part of the day starts, in hours. Night runs past midnight into dawn.
+const TIME_OF_DAY_STARTS: Record<TimeOfDay, number> = {
+  dawn: 5,
+  morning: 7,
+  noon: 11,
+  afternoon: 13,
+  evening: 17,
+  twilight: 19,
+  night: 21,
+};
+
+export const LIGHT_LEVELS = ["bright", "dim", "dark"] as const;
+export type LightLevel = (typeof LIGHT_LEVELS)[number];
+
+const TIME_OF_DAY_LIGHT: Record<TimeOfDay, LightLevel> = {
+  dawn: "dim",
+  morning: "bright",
+  noon: "bright",
+  afternoon: "bright",
+  evening: "bright",
+  twilight: "dim",
+  night: "dark",
+};
+
+/**
+ * Clock reading for the start of a part of the first day
+ */
+export function clockAt(timeOfDay: TimeOfDay): number {
+  return TIME_OF_DAY_STARTS[timeOfDay] * 60;
+}
+
+export function getTimeOfDay(clock: number): TimeOfDay {
+  const hour = (clock % MINUTES_PER_DAY) / 60;
+  let current: TimeOfDay = "night";
+  for (const timeOfDay of TIMES_OF_DAY) {
+    if (hour >= TIME_OF_DAY_STARTS[timeOfDay]) current = timeOfDay;
+  }
+  return current;
+}
+
+/**
+ * How light it is outdoors at a time of day. Locations with their own
+ * lighting (cellars, lit halls) override this - see getLightLevel in locations.ts.
+ */
+export function getDaylight(clock: number): LightLevel {
+  return TIME_OF_DAY_LIGHT[getTimeOfDay(clock)];
+}
+
+export function getDay(clock: number): number {
+  return Math.floor(clock / MINUTES_PER_DAY) + 1;
+}
+
+/**
+ * "Day 2, 14:30 (afternoon)"
+ */
+export function formatClock(clock: number): string {
+  const minutes = clock % MINUTES_PER_DAY;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `Day ${getDay(clock)}, ${hh}:${mm} (${getTimeOfDay(clock)})`;
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+/**
+ * How long an effect lasts. Every duration has a length on the clock; short
+ * ones (a minute or less) also count rounds, so in combat they end on the
+ * right turn rather than whenever the clock next ticks over.
+ */
+export interface EffectDuration {
+  minutes: number;
+  rounds: number | null;
+}
+
+/**
+ * Parse a duration like "1 minute", "Concentration, up to 1 hour", "1 round"
+ * or "until the end of your next turn". Returns null for durations that don't
+ * run out on their own ("Instantaneous", "Until dispelled").
+ */
+export function parseDuration(duration: string | undefined): EffectDuration | null {
+  if (!duration) return null;
+  const text = duration.toLowerCase();
+
+  const fromRounds = (rounds: number): EffectDuration => ({
+    minutes: Math.max(1, Math.ceil(rounds / ROUNDS_PER_MINUTE)),
+    rounds,
+  });
+
+  const match = text.match(/(\d+)\s*(round|minute|hour|day)s?/);
+  if (match) {
+    const amount = Number(match[1]);
+    switch (match[2]) {
+      case "round":
+        return fromRounds(amount);
+      case "minute":
+        return amount <= 1 ? fromRounds(amount * ROUNDS_PER_MINUTE) : { minutes: amount, rounds: null };
+      case "hour":
+        return { minutes: amount * 60, rounds: null };
+      case "day":
+        return { minutes: amount * MINUTES_PER_DAY, rounds: null };
+    }
+  }
+
+  if (/\bturn\b/.test(text)) return fromRounds(1);
+  return null;
+}
@@ -0,0 +1,226 @@
+// Slash commands - "/roll 2d6+3", "/check stealth" and friends.
+// These resolve straight against the rules modules and log the result,
+// without asking the DM. Anything that isn't a slash command goes to the DM.
+
+import { GameState, addToTranscript, getCharacterLight } from "./game-state";
+import { Ability, Character, Skill } from "./character";
+import { skillCheck, abilityCheck, savingThrow, getLightCheckModifier, CheckResult } from "./rules/abilities";
+import { roll, formatRollResult, DiceExpressionError } from "./rules/dice";
+import { checkTurn, endTurn } from "./turns";
+import { castSpell, equipItem, consumeItem, moveCombatant } from "./actions";
+
+export interface SlashCommand {
+  name: string;
+  args: string;
+}
+
+const ABILITY_ALIASES: Record<string, Ability> = {
+  str: "strength",
+  dex: "dexterity",
+  con: "constitution",
+  int: "intelligence",
+  wis: "wisdom",
+  cha: "charisma",
+  strength: "strength",
+  dexterity: "dexterity",
+  constitution: "constitution",
+  intelligence: "intelligence",
+  wisdom: "wisdom",
+  charisma: "charisma",
+};
+
+const SKILLS: Skill[] = [
+  "acrobatics", "animal_handling", "arcana", "athletics",
+  "deception", "history", "insight", "intimidation",
+  "investigation", "medicine", "nature", "perception",
+  "performance", "persuasion", "religion", "sleight_of_hand",
+  "stealth", "survival",
+];
+
+const COMMAND_HELP = "/roll, /check, /save, /cast, /equip, /use, /move, /endturn";
+
+/**
+ * Split "/cast cure_wounds on Bram" into { name: "cast", args: "cure_wounds on Bram" }.
+ * Returns null for anything that isn't a slash command.
+ */
+export function parseSlashCommand(input: string): SlashCommand | null {
+  const match = input.trim().match(/^\/(\w+)\s*([\s\S]*)$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: match[2].trim() };
+}
+
+// Match by id or display name, ignoring case and spaces vs underscores
+function matchesName(query: string, id: string, name: string): boolean {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, "_");
+  return normalized === id.toLowerCase() || normalized === name.toLowerCase().replace(/\s+/g, "_");
+}
+
+// Split "<thing> on <target>" into its two halves
+function splitTarget(args: string): { subject: string; target: string | null } {
+  const match = args.match(/^(.*?)\s+on\s+(.+)$/i);
+  return match ? { subject: match[1].trim(), target: match[2].trim() } : { subject: args, target: null };
+}
+
+function formatModifier(modifier: number): string {
+  return modifier >= 0 ? `+${modifier}` : `${modifier}`;
+}
+
+// Like formatCheckResult, but without a DC - the player is rolling on their own
+function formatOpenCheck(character: Character, label: string, result: CheckResult): string {
+  const rolled = result.roll.advantage && result.roll.discardedRoll !== undefined
+    ? `[${result.roll.natural}] (${result.roll.advantage}, discarded ${result.roll.discardedRoll})`
+    : `[${result.roll.natural}]`;
+  const critText = result.roll.isCritical ? " (Natural 20!)" : result.roll.isFumble ? " (Natural 1!)" : "";
+  return `${character.name} ${label}: ${rolled}${formatModifier(result.modifier)} = ${result.total}${critText}`;
+}
+
+/**
+ * Run a slash command for a character. Returns an error message,
+ * or null once the result has been logged to the transcript.
+ */
+export async function runSlashCommand(
+  code: string,
+  game: GameState,
+  character: Character | null,
+  command: SlashCommand
+): Promise<string | null> {
+  const { name, args } = command;
+
+  if (name === "roll") {
+    if (!args) return "Usage: /roll 2d6+3";
+    try {
+      const result = roll(args);
+      const who = character?.name ?? "Someone";
+      await addToTranscript(code, {
+        type: "dice",
+        content: `${who} rolls ${args}: ${formatRollResult(result)}`,
+        characterId: character?.id,
+      });
+      return null;
+    } catch (error) {
+      if (error instanceof DiceExpressionError) return error.message;
+      throw error;
+    }
+  }
+
+  if (!character) return "Create a character before using commands";
+
+  switch (name) {
+    case "check": {
+      if (!args) return "Usage: /check stealth or /check dex";
+      const key = args.toLowerCase().replace(/\s+/g, "_");
+      const skill = SKILLS.find((s) => s === key);
+      const ability = ABILITY_ALIASES[key];
+      if (!skill && !ability) return `Unknown skill or ability: ${args}`;
+
+      const result = skill
+        ? skillCheck(character, skill, 0, getLightCheckModifier(getCharacterLight(game, character), skill))
+        : abilityCheck(character, ability, 0);
+      const label = `${(skill ?? ability).replace(/_/g, " ")} check`;
+      await addToTranscript(code, {
+        type: "dice",
+        content: formatOpenCheck(character, label, result),
+        characterId: character.id,
+      });
+      return null;
+    }
+
+    case "save": {
+      const ability = ABILITY_ALIASES[args.toLowerCase()];
+      if (!ability) return "Usage: /save dex";
+
+      const result = savingThrow(character, ability, 0);
+      await addToTranscript(code, {
+        type: "dice",
+        content: formatOpenCheck(character, `${ability.slice(0, 3).toUpperCase()} save`, result),
+        characterId: character.id,
+      });
+      return null;
+    }
+  }
+
+  // Everything below acts in the world, so it has to wait for the character's turn
+  if (["cast", "equip", "use", "move", "endturn"].includes(name)) {
+    const turnError = checkTurn(game, character.id);
+    if (turnError) return turnError;
+  }
+
+  switch (name) {
+    case "cast": {
+      const levelMatch = args.match(/\s+at\s+level\s+(\d+)$/i);
+      const withoutLevel = levelMatch ? args.slice(0, levelMatch.index) : args;
+      const squareMatch = withoutLevel.match(/\s+at\s+([a-z]\d{1,2})$/i);
+      const { subject, target } = splitTarget(squareMatch ? withoutLevel.slice(0, squareMatch.index) : withoutLevel);
+      if (!subject) return "Usage: /cast cure_wounds on Bram, /cast bless on Bram, Mira or /cast sleep at F4";
+
+      const spell = [...character.cantripsKnown, ...character.knownSpells]
+        .find((s) => matchesName(subject, s.id, s.name));
+      if (!spell) return `${character.name} doesn't know ${subject}`;
+
+      const targetIds: string[] = [];
+      for (const name of target ? target.split(/\s*,\s*|\s+and\s+/i) : []) {
+        const found = [...game.characters, ...(game.combat?.enemies ?? [])]
+          .find((t) => t.name.toLowerCase() === name.toLowerCase());
+        if (!found) return `No one called ${name} here`;
+        targetIds.push(found.id);
+      }
+
+      const result = await castSpell(
+        code,
+        character.id,
+        spell.id,
+        targetIds,
+        levelMatch ? Number(levelMatch[1]) : undefined,
+        squareMatch?.[1]
+      );
+      return "error" in result ? result.error ?? null : null;
+    }
+
+    case "equip": {
+      const item = character.inventory.find((i) => matchesName(args, i.id, i.name));
+      if (!item) return args ? `${character.name} has no ${args}` : "Usage: /equip longsword";
+
+      const result = await equipItem(code, character.id, item.id);
+      return "error" in result ? result.error ?? null : null;
+    }
+
+    case "use": {
+      const { subject, target } = splitTarget(args);
+      const item = character.inventory.find((i) => matchesName(subject, i.id, i.name));
+      if (!item) return subject ? `${character.name} has no ${subject}` : "Usage: /use potion_healing";
+
+      let targetId: string | undefined;
+      if (target) {
+        const found = game.characters.find((c) => c.name.toLowerCase() === target.toLowerCase());
+        if (!found) return `No party member called ${target}`;
+        targetId = found.id;
+      }
+
+      const result = await consumeItem(code, character.id, item.id, targetId);
+      return "error" in result ? result.error ?? null : null;
+    }
+
+    case "move": {
+      if (game.phase !== "combat") return "You're not in combat";
+      if (!args) return "Usage: /move C4";
+
+      const result = await moveCombatant(code, character.id, args);
+      return "error" in result ? result.error ?? null : null;
+    }
+
+    case "endturn": {
+      if (game.phase !== "combat") return "You're not in combat";
+
+      await addToTranscript(code, {
+        type: "system",
+        content: `${character.name} ends their turn.`,
+        characterId: character.id,
+      });
+      // Enemy turns log their own combat entries - no narration for a command
+      await endTurn(code);
+      return null;
+    }
+  }
+
+  return `Unknown command /${name} - try ${COMMAND_HELP}`;
+}
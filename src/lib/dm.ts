@@ -1,32 +1,60 @@
 import { streamText, generateText, stepCountIs } from "ai";
 import { anthropic } from "@ai-sdk/anthropic";
 import { z } from "zod";
-import { WORLD_LORE, CHARACTERS } from "./brains";
 import {
   addToTranscript,
   setThinking,
   getGame,
   updateCharacter,
   updateGame,
+  mutateGame,
+  streamNarration,
+  passTime,
+  cancelEffect,
+  getActiveEffects,
+  getEffectTarget,
+  getCharacterLight,
+  getEnemyLight,
+  updateEnemy,
+  endCombat,
 } from "./game-state";
-import { Character, Ability, Skill, DamageType, Spell, InventoryItem, Armor, Condition, calculateAC, getProficiencyBonus, getLevelFromXp, getModifier } from "./character";
-import { skillCheck, abilityCheck, savingThrow, getSpellSaveDC } from "./rules/abilities";
-import { createEnemyGroup } from "./rules/enemies";
-import { CANTRIPS, SPELLS_LEVEL_1, SPELLS_LEVEL_2, canCastSpell, useSpellSlot, rollSpellDamage } from "./rules/spells";
+import { endTurn } from "./turns";
+import { getAdventure } from "./adventure";
+import { getLightLevel, getLocation, getVisibleExits } from "./locations";
+import { formatClock, formatDuration, SHORT_REST_MINUTES, LONG_REST_MINUTES } from "./clock";
+import { getStoryBeat } from "./story";
+import { addNpc, updateNpc, isSocialSkill, resolveSocialCheck, buildNpcRoster, buildNpcPrompt } from "./npcs";
+import { damageEnemy, spendTurnResource, takeActionSurge, castSpell, equipItem, consumeItem, beginCombat, advanceStory, rollEncounter, giveItem, giveGold, rollLoot, moveParty, discoverLocation, applyCondition, moveCombatant, awardXp, offerQuest, updateQuest, completeQuest } from "./actions";
+import { formatReward, isObjectiveDone } from "./quests";
+import { Character, Ability, Skill, CONDITIONS, DAMAGE_TYPES, Spell, Armor, Weapon, calculateAC, getProficiencyBonus, getLevelFromXp, getModifier } from "./character";
+import { skillCheck, abilityCheck, enemyAbilityCheck, rollSavingThrow, getLightCheckModifier, getLightAttackModifier, combineAdvantage } from "./rules/abilities";
+import { CANTRIPS, SPELLS_LEVEL_1, SPELLS_LEVEL_2 } from "./rules/spells";
 import { CLASSES, getMaxHp, getSpellSlots, getFeaturesAtLevel, getSneakAttackDice } from "./rules/classes";
-import { WEAPONS, ARMOR, GEAR, isFinesse, isRanged } from "./rules/equipment";
-import { roll } from "./rules/dice";
+import { getDarkvision } from "./rules/races";
+import { WEAPONS, isFinesse, isRanged } from "./rules/equipment";
+import { roll, rollDie } from "./rules/dice";
 import {
-  createCombatState,
-  rollInitiative,
-  rollEnemyInitiative,
   makeAttack,
-  applyDamage,
-  applyDamageToEnemy,
   healCharacter,
   formatAttackResult,
-  rollDeathSave,
+  resolveDeathSave,
+  resolveCharacterDamage,
+  getCurrentCombatant,
+  formatTurnResources,
+  checkAttackPosition,
+  getWeaponReach,
+  getMapLabels,
+  describePositions,
+  canTakeActions,
+  ActionCost,
 } from "./rules/combat";
+import { SQUARE_FEET, getDistanceBetween, renderBattleMap } from "./rules/grid";
+
+// How often streamed narration is pushed to the room
+const NARRATION_FLUSH_MS = 150;
+
+// Refresh the campaign summary once this many new transcript entries pile up
+const SUMMARY_EVERY = 20;
 
 // Build character summary for DM context
 function buildCharacterSummary(characters: Character[]): string {
@@ -51,12 +79,111 @@ function buildCombatSummary(game: Awaited<ReturnType<typeof getGame>>): string {
     .map((c, i) => {
       const marker = i === combat.turnIndex ? ">" : " ";
       const enemy = combat.enemies.find((e) => e.id === c.id);
-      const hp = enemy ? ` (${enemy.currentHp}/${enemy.maxHp} HP)` : "";
+      const conditions = enemy && enemy.conditions.length > 0 ? `, ${enemy.conditions.join(", ")}` : "";
+      const hp = enemy ? ` (${enemy.currentHp}/${enemy.maxHp} HP${conditions})` : "";
       return `${marker} ${c.name}${hp}`;
     })
     .join(", ");
 
-  return `\nCOMBAT - Round ${combat.round}\nInitiative: ${order}`;
+  const current = getCurrentCombatant(combat);
+  const budget = current?.resources
+    ? `\n${current.name} has left this turn: ${formatTurnResources(current.resources)}`
+    : "";
+
+  const labels = getMapLabels(combat);
+  const legend = combat.initiativeOrder.map((c) => `${labels[c.id]} ${c.name}`).join(", ");
+  const map = renderBattleMap(combat.map, labels).join("\n");
+  const positions = describePositions(combat, current?.id);
+
+  return `\nCOMBAT - Round ${combat.round}\nInitiative: ${order}${budget}\nBattle map (. open, ~ difficult, # wall; ${legend}):\n${map}\nPositions: ${positions}`;
+}
+
+// Current story beat and where it can go next, for DM context
+function buildStoryContext(game: Awaited<ReturnType<typeof getGame>>): string {
+  if (!game) return "";
+  const adventure = getAdventure(game.adventureId);
+  const beat = getStoryBeat(adventure, game.storyBeat);
+  if (!beat) return "";
+
+  const next = beat.next.length > 0
+    ? beat.next.map((id) => `- ${id}: ${getStoryBeat(adventure, id)?.desc ?? id}`).join("\n")
+    : "- None. This is an ending.";
+  return `\nSTORY BEAT: ${game.storyBeat} (${beat.desc})\nNext beats:\n${next}\n`;
+}
+
+// Open quests and their objectives, for DM context
+function buildQuestContext(game: Awaited<ReturnType<typeof getGame>>): string {
+  if (!game) return "";
+  const open = Object.values(game.quests).filter((q) => q.state === "offered" || q.state === "active");
+  if (open.length === 0) return "";
+
+  const quests = open
+    .map((q) => {
+      const objectives = q.objectives
+        .map((o) => `  ${o.id} [${isObjectiveDone(game.worldState, q.id, o.id) ? "x" : " "}] ${o.text}`)
+        .join("\n");
+      const giver = q.giver ? ` from ${game.npcs[q.giver]?.name ?? q.giver}` : "";
+      return `- ${q.id}: ${q.title} [${q.state}]${giver} - reward: ${formatReward(q)}\n${objectives}`;
+    })
+    .join("\n");
+  return `\nQUESTS:\n${quests}\n`;
+}
+
+// The adventure module's lore, places and tables, for DM context
+function buildWorldKnowledge(game: Awaited<ReturnType<typeof getGame>>): string {
+  if (!game) return "";
+  const adventure = getAdventure(game.adventureId);
+
+  const locations = Object.entries(adventure.locations)
+    .map(([id, l]) => `- ${id}: ${l.name}. ${l.description}`)
+    .join("\n");
+  const encounters = Object.keys(adventure.encounterTables).join(", ") || "none";
+  const loot = Object.keys(adventure.lootTables).join(", ") || "none";
+
+  return `\nADVENTURE: ${adventure.title}\n\nWORLD KNOWLEDGE:\n${adventure.lore}\n\nLOCATIONS:\n${locations}\n\nENCOUNTER TABLES: ${encounters}\nLOOT TABLES: ${loot}\n`;
+}
+
+// Where the party is and where they can go, for DM context
+function buildLocationContext(game: Awaited<ReturnType<typeof getGame>>): string {
+  if (!game) return "";
+  const adventure = getAdventure(game.adventureId);
+  const { location, clock, discoveredLocations } = game.worldState;
+  const here = getLocation(adventure, location);
+  if (!here) return "";
+
+  const exits = getVisibleExits(adventure, location, discoveredLocations)
+    .map((e) => `- ${e.to}: ${getLocation(adventure, e.to)?.name ?? e.to} (${formatDuration(e.minutes)})${e.description ? ` - ${e.description}` : ""}`)
+    .join("\n");
+  const light = getLightLevel(adventure, location, clock);
+  const darkvision = game.characters.filter((c) => getDarkvision(c.race) > 0).map((c) => c.name);
+  const sight = light !== "bright" && darkvision.length > 0 ? ` (darkvision: ${darkvision.join(", ")})` : "";
+  return `\nPARTY LOCATION: ${here.name} (${location}), ${formatClock(clock)}\nLight: ${light}${sight}\nExits:\n${exits || "- None"}\n`;
+}
+
+// Spells and conditions with a duration or a save to end them, for DM context
+function buildActiveEffectsContext(game: Awaited<ReturnType<typeof getGame>>): string {
+  if (!game) return "";
+  const active = getActiveEffects(game);
+  if (active.length === 0) return "";
+  const effects = active
+    .map((e) => {
+      const who = getEffectTarget(game, e.targetId)?.name ?? e.targetId;
+      const ends: string[] = [];
+      if (game.combat && e.endsAfterTurn) ends.push(`until round ${e.endsAfterTurn.round}`);
+      else if (e.expiresAt !== null) ends.push(`${formatDuration(Math.max(0, e.expiresAt - game.worldState.clock))} left`);
+      if (e.save) ends.push(`${e.save.ability.toUpperCase()} save DC ${e.save.dc} ends it`);
+      if (e.concentration) ends.push("concentration");
+      const what = e.kind === "concentration" ? `concentrating on ${e.name}` : `${e.name} from ${e.source}`;
+      return `- ${who}: ${what}${ends.length > 0 ? ` (${ends.join(", ")})` : ""}`;
+    })
+    .join("\n");
+  return `\nACTIVE EFFECTS (expire on their own - don't remove them by hand):\n${effects}\n`;
+}
+
+// Campaign summary for DM context - everything older than the recent transcript
+function buildStorySoFar(game: Awaited<ReturnType<typeof getGame>>): string {
+  if (!game?.summary?.text) return "";
+  return `\nTHE STORY SO FAR:\n${game.summary.text}\n`;
 }
 
 const SYSTEM_BASE = `You are the Dungeon Master for a D&D 5e adventure.
@@ -74,14 +201,19 @@ D&D RULES:
 - Critical hits (nat 20) double damage dice
 - Natural 1 is always a miss
 
-WORLD KNOWLEDGE:
-${WORLD_LORE}
+ACTION ECONOMY (combat):
+- Each turn a combatant gets one action, one bonus action, one reaction and movement up to their speed
+- attack, use_item and most spells/features use the action; spells cost what their casting time says
+  (Healing Word is a bonus action, Shield is a reaction)
+- Second Wind is a bonus action. Action Surge grants one extra action
+- If a tool says the budget is spent, tell the player instead of letting them act
 
 TOOLS:
 - ability_check: For uncertain outcomes based on character abilities
 - saving_throw: When characters resist effects
-- attack: When attacking enemies
-- cast_spell: When characters cast spells (cantrips or leveled)
+- attack: When attacking enemies (checks reach and range on the battle map)
+- move_combatant: When a character moves during combat (costs movement; enemies move on their own)
+- cast_spell: When characters cast spells (cantrips or leveled). Saves, damage and conditions are applied for you
 - apply_damage: When dealing damage to characters
 - heal: When healing characters
 - death_save: Roll a death save for an unconscious character (at 0 HP)
@@ -89,14 +221,43 @@ TOOLS:
 - remove_condition: Remove a condition from a character
 - use_feature: Use a class feature (Second Wind, Action Surge, Arcane Recovery, Channel Divinity)
 - level_up: When a character has enough XP to level up
-- rest: When party takes a short or long rest
-- speak_as_npc: When NPCs talk (use their voice!)
+- rest: When party takes a short or long rest (1 hour / 8 hours pass)
+- pass_time: When time passes outside travel and rests (waiting, searching, a night's watch)
+- speak_as_npc: When NPCs talk (use their voice!). They remember past dealings with the party
+- add_npc: Before a new named NPC speaks for the first time
+- update_npc: When an NPC learns something about the party or their feelings change
+- offer_quest: When someone asks the party for help (a job, a favor, a bounty)
+- update_quest: When the party accepts a quest, finishes an objective, or learns of a new one
+- complete_quest: When a quest is done (rewards are handed out for you) or can no longer be done
 - start_combat: When combat begins
+- roll_encounter: Start a random fight from one of the adventure's encounter tables
+- move_party: When the party travels to a connected location (time passes; some places have encounters)
+- discover_location: When the party learns of a place (a rumor, a map, a secret passage)
+- advance_story: When the party reaches the next story beat (only to one of the listed next beats).
+  Some beats open with their own narration or encounter - the tool tells you what happened
+- end_turn: When the acting combatant is done for this turn
 - end_combat: When combat ends
 
+ENEMY TURNS:
+- Enemies act on their own when initiative reaches them. Their attacks are rolled and applied for you.
+- start_combat and end_turn return what the enemies did. Narrate those results.
+- Never invent monster attacks or call apply_damage for a monster's hit.
+- Monster traits with rules (Pack Tactics, Martial Advantage, Aggressive, Undead Fortitude, Multiattack)
+  are applied for you, on their turns and when they're hit. Narrate them, don't roll them.
+- Only the character whose turn it is can act. Players usually end their turn themselves ("end turn");
+  call end_turn only when the acting player clearly says they are done.
+
+BATTLE MAP:
+- Combat happens on a grid of 5 ft squares named like C4. Diagonals count as 5 ft.
+- Melee needs the target within reach (5 ft, 10 ft with a reach weapon). Ranged attacks beyond normal
+  range, or with an enemy adjacent, have disadvantage. An ally opposite the target gives flanking (advantage).
+- If a player moves and attacks, call move_combatant before attack. Difficult terrain (~) costs double.
+- Area spells hit everyone in the area, allies included: Burning Hands is a 15 ft cone from the caster
+  toward a square, Sleep a 20 ft radius around one. Give cast_spell the square and it finds the targets.
+
 CLASS FEATURES:
 - Second Wind (Fighter): Bonus action, regain 1d10 + level HP. Recharges on short/long rest.
-- Action Surge (Fighter, L2+): Take an additional action this turn. Recharges on short/long rest.
+- Action Surge (Fighter, L2+): Take an additional action this turn. Combat only, once per turn. Recharges on short/long rest.
 - Arcane Recovery (Wizard): After short rest, recover spell slots totaling half wizard level (rounded up). Once per long rest.
 - Channel Divinity (Cleric, L2+): Choose Turn Undead or Preserve Life. Recharges on short/long rest.
   - Turn Undead: Undead within 30ft make WIS save or flee.
@@ -108,6 +269,7 @@ EQUIPMENT & ITEMS:
 - use_item: Use a consumable (healing potion heals 2d4+2, greater healing 4d4+4)
 - give_item: Give a new item to a character (from loot, purchases, etc)
 - give_gold: Give gold to a character
+- roll_loot: Roll on one of the adventure's loot tables for a character
 
 CONCENTRATION:
 - Some spells require concentration (marked in spell data)
@@ -131,6 +293,18 @@ CONDITIONS:
 - restrained: Speed 0, disadvantage on attacks and DEX saves, attacks against have advantage
 - stunned: Incapacitated, auto-fail STR/DEX saves, attacks against have advantage
 - unconscious: Incapacitated, auto-fail STR/DEX, prone, attacks have advantage + auto-crit in melee
+- Give apply_condition the duration, and the save if one can end it early. Durations and
+  end-of-turn saves are tracked for you; conditions from a concentration spell end with it
+- Conditions, saves and checks work on enemies too - pass the enemy's ID. Immunities are enforced
+  (skeletons can't be poisoned), and an enemy that's held or asleep skips its turns
+- Pass saving_throw what the save is against (frightened, charmed, poison) - racial traits like
+  Brave, Fey Ancestry and Dwarven Resilience give advantage. Halflings reroll natural 1s on their own
+
+LIGHT:
+- The party location shows the light: bright, dim or dark. Darkvision sees dim as bright and dark as dim
+- Perception checks in dim light or darkness have disadvantage; in darkness a character attacks at
+  disadvantage and is attacked with advantage, unless the monster lacks darkvision too - then the two
+  cancel out. This is applied for you
 
 DEATH & DYING:
 - At 0 HP, characters fall unconscious and must make death saves
@@ -145,18 +319,20 @@ Keep it punchy. This is a terminal, not a novel.`;
 
 // Tool schemas
 const abilityCheckSchema = z.object({
-  characterId: z.string().describe("ID of the character making the check"),
+  characterId: z.string().describe("ID of the character or enemy making the check"),
   ability: z.enum(["strength", "dexterity", "constitution", "intelligence", "wisdom", "charisma"]),
   skill: z.string().optional().describe("Optional skill for the check"),
   dc: z.number().describe("Difficulty class (10=easy, 15=medium, 20=hard)"),
   description: z.string().describe("What the check is for"),
+  npcId: z.string().optional().describe("NPC a social check is aimed at (persuasion, deception, intimidation...) - moves their attitude"),
 });
 
 const savingThrowSchema = z.object({
-  characterId: z.string().describe("ID of the character making the save"),
+  characterId: z.string().describe("ID of the character or enemy making the save"),
   ability: z.enum(["strength", "dexterity", "constitution", "intelligence", "wisdom", "charisma"]),
   dc: z.number().describe("Difficulty class"),
   effect: z.string().describe("What happens on failure"),
+  against: z.enum([...CONDITIONS, ...DAMAGE_TYPES]).optional().describe("Condition or damage type the save is against (frightened, charmed, poison...) - racial traits like Brave give advantage"),
 });
 
 const attackSchema = z.object({
@@ -165,13 +341,15 @@ const attackSchema = z.object({
   weaponName: z.string().optional().describe("Name of weapon used"),
 });
 
+const moveCombatantSchema = z.object({
+  characterId: z.string().describe("ID of the character moving"),
+  square: z.string().describe("Battle map square to move to, e.g. C4"),
+});
+
 const damageSchema = z.object({
   characterId: z.string().describe("ID of the character taking damage"),
   amount: z.number().describe("Amount of damage"),
-  damageType: z.enum([
-    "slashing", "piercing", "bludgeoning", "fire", "cold", "lightning",
-    "thunder", "poison", "acid", "necrotic", "radiant", "force", "psychic",
-  ]),
+  damageType: z.enum(DAMAGE_TYPES),
   source: z.string().describe("What caused the damage"),
 });
 
@@ -182,16 +360,83 @@ const healSchema = z.object({
 });
 
 const speakAsNpcSchema = z.object({
-  characterId: z.enum(["mara", "vexis", "dren"]),
+  npcId: z.string().describe("ID of the NPC (from the NPCS list)"),
   situation: z.string(),
 });
 
+const addNpcSchema = z.object({
+  name: z.string().describe("The NPC's name"),
+  description: z.string().describe("Who they are, in a few words"),
+  voice: z.string().describe("How they talk"),
+  secret: z.string().describe("Something they know or want that the party doesn't"),
+  attitude: z.number().optional().describe("Starting attitude toward the party, -100 (hostile) to 100 (devoted). Default 0"),
+});
+
+const questItemSchema = z.object({
+  name: z.string().describe("Item name"),
+  type: z.enum(["weapon", "armor", "shield", "potion", "tool", "gear", "treasure"]).describe("Item type"),
+});
+
+const offerQuestSchema = z.object({
+  title: z.string().describe("Quest title, e.g. The Missing Miller"),
+  description: z.string().describe("What's being asked, in a sentence or two"),
+  giverId: z.string().optional().describe("ID of the NPC offering it, if any"),
+  objectives: z.array(z.string()).min(1).describe("What the party needs to do"),
+  xp: z.number().int().min(0).describe("XP for each character on completion"),
+  gold: z.number().int().min(0).optional().describe("Gold for each character on completion"),
+  items: z.array(questItemSchema).optional().describe("Items handed over on completion"),
+});
+
+const updateQuestSchema = z.object({
+  questId: z.string().describe("ID of the quest"),
+  accept: z.boolean().optional().describe("The party takes on an offered quest"),
+  completeObjectives: z.array(z.string()).optional().describe("IDs of objectives the party just finished (o1, o2...)"),
+  addObjectives: z.array(z.string()).optional().describe("New objectives the party has uncovered"),
+});
+
+const completeQuestSchema = z.object({
+  questId: z.string().describe("ID of the quest"),
+  outcome: z.enum(["completed", "failed"]).describe("How it ended"),
+  recipientId: z.string().optional().describe("ID of the character who takes the reward items (required if there are any)"),
+});
+
+const updateNpcSchema = z.object({
+  npcId: z.string().describe("ID of the NPC"),
+  memory: z.string().optional().describe("Something they should remember about the party, addressed to them (\"Bram lied to you about...\")"),
+  attitudeChange: z.number().optional().describe("How much their attitude shifts (-100 to 100)"),
+});
+
 const startCombatSchema = z.object({
   enemyType: z.string().describe("Type of enemy (goblin, skeleton, orc, etc)"),
   count: z.number().describe("Number of enemies"),
   environment: z.string().describe("Combat environment description"),
 });
 
+const endTurnSchema = z.object({});
+
+const rollEncounterSchema = z.object({
+  tableId: z.string().describe("ID of the encounter table (from ENCOUNTER TABLES)"),
+  environment: z.string().describe("Combat environment description"),
+});
+
+const rollLootSchema = z.object({
+  tableId: z.string().describe("ID of the loot table (from LOOT TABLES)"),
+  characterId: z.string().describe("ID of the character receiving the loot"),
+  source: z.string().describe("Where the loot came from"),
+});
+
+const movePartySchema = z.object({
+  locationId: z.string().describe("ID of a location connected to the party's (see Exits)"),
+});
+
+const discoverLocationSchema = z.object({
+  locationId: z.string().describe("ID of the location (from LOCATIONS)"),
+});
+
+const advanceStorySchema = z.object({
+  beatId: z.string().describe("ID of the next story beat (one of the listed next beats)"),
+});
+
 const endCombatSchema = z.object({
   outcome: z.enum(["victory", "defeat", "fled"]),
   xpAwarded: z.number().optional().describe("XP to award to each character"),
@@ -200,7 +445,8 @@ const endCombatSchema = z.object({
 const castSpellSchema = z.object({
   casterId: z.string().describe("ID of the character casting the spell"),
   spellId: z.string().describe("ID of the spell (fire_bolt, magic_missile, cure_wounds, etc)"),
-  targetId: z.string().optional().describe("ID of the target (for targeted spells)"),
+  targetIds: z.array(z.string()).optional().describe("IDs of the targets (Bless can pick several; area spells can aim at one instead of a square)"),
+  square: z.string().optional().describe("Square to aim an area spell at, like F4: a Sleep's centre or the direction of a Burning Hands cone"),
   spellLevel: z.number().optional().describe("Spell slot level to use (for leveled spells, not cantrips)"),
 });
 
@@ -213,23 +459,31 @@ const restSchema = z.object({
   hitDiceToSpend: z.number().optional().describe("Number of hit dice to spend during short rest (max = level)"),
 });
 
+const passTimeSchema = z.object({
+  minutes: z.number().int().min(1).max(7 * 24 * 60).describe("How many minutes pass"),
+  reason: z.string().describe("What the party spends the time doing"),
+});
+
 const deathSaveSchema = z.object({
   characterId: z.string().describe("ID of the unconscious character to roll death save for"),
 });
 
 const applyConditionSchema = z.object({
-  characterId: z.string().describe("ID of the character to apply condition to"),
+  characterId: z.string().describe("ID of the character or enemy to apply condition to"),
   condition: z.enum([
     "blinded", "charmed", "deafened", "frightened", "grappled",
     "incapacitated", "invisible", "paralyzed", "petrified",
     "poisoned", "prone", "restrained", "stunned", "unconscious"
   ]).describe("The condition to apply"),
   source: z.string().describe("What caused the condition"),
-  duration: z.string().optional().describe("Duration (e.g., '1 minute', 'until end of next turn')"),
+  duration: z.string().optional().describe("Duration (e.g., '1 minute', 'until end of next turn'). Tracked for you"),
+  saveAbility: z.enum(["strength", "dexterity", "constitution", "intelligence", "wisdom", "charisma"]).optional()
+    .describe("If the target can shake it off: the save they repeat at the end of each of their turns"),
+  saveDC: z.number().optional().describe("DC for the repeated save"),
 });
 
 const removeConditionSchema = z.object({
-  characterId: z.string().describe("ID of the character to remove condition from"),
+  characterId: z.string().describe("ID of the character or enemy to remove condition from"),
   condition: z.string().describe("The condition to remove"),
 });
 
@@ -286,8 +540,8 @@ export async function runDM(
   playerAction: string,
   actingCharacter?: Character
 ) {
-  const game = await getGame(roomCode);
-  if (!game) throw new Error("Game not found");
+  const snapshot = await getGame(roomCode);
+  if (!snapshot) throw new Error("Game not found");
 
   // Add player action to transcript
   await addToTranscript(roomCode, {
@@ -300,13 +554,13 @@ export async function runDM(
   await setThinking(roomCode, "The Dungeon Master considers...");
 
   // Build context
-  const recentTranscript = game.transcript
+  const recentTranscript = snapshot.transcript
     .slice(-10)
     .map((e) => e.content)
     .join("\n\n");
 
-  const partyInfo = buildCharacterSummary(game.characters);
-  const combatInfo = buildCombatSummary(game);
+  const partyInfo = buildCharacterSummary(snapshot.characters);
+  const combatInfo = buildCombatSummary(snapshot);
 
   const characterContext = actingCharacter
     ? `\n\nACTING CHARACTER: ${actingCharacter.name} (Level ${actingCharacter.level} ${actingCharacter.race} ${actingCharacter.class})
@@ -315,19 +569,30 @@ STR ${actingCharacter.abilities.strength} DEX ${actingCharacter.abilities.dexter
     : "";
 
   const systemPrompt = `${SYSTEM_BASE}
-
+${buildWorldKnowledge(snapshot)}${buildStorySoFar(snapshot)}
 CURRENT PARTY:
 ${partyInfo}
 ${combatInfo}
+${buildLocationContext(snapshot)}${buildActiveEffectsContext(snapshot)}${buildStoryContext(snapshot)}${buildQuestContext(snapshot)}
+NPCS:
+${buildNpcRoster(snapshot)}
 ${characterContext}`;
 
+  // Tools always work from the latest state - other tool calls (and enemy
+  // turns) may have changed it since the prompt was built
+  const loadGame = async () => {
+    const game = await getGame(roomCode);
+    if (!game) throw new Error("Game not found");
+    return game;
+  };
+
   const result = streamText({
     model: anthropic("claude-sonnet-4-5"),
     system: systemPrompt,
     prompt: `Recent transcript:\n${recentTranscript}\n\nPlayer action: ${playerAction}\n\nRespond as DM:`,
     tools: {
       ability_check: {
-        description: "Make an ability check for a character",
+        description: "Make an ability check for a character or enemy",
         inputSchema: abilityCheckSchema,
         execute: async ({
           characterId,
@@ -335,15 +600,22 @@ ${characterContext}`;
           skill,
           dc,
           description,
+          npcId,
         }: z.infer<typeof abilityCheckSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
-          if (!char) return { error: "Character not found" };
+          const game = await loadGame();
+          const roller = getEffectTarget(game, characterId);
+          if (!roller) return { error: "Character not found" };
 
-          await setThinking(roomCode, `${char.name} attempts ${description}...`);
+          await setThinking(roomCode, `${roller.name} attempts ${description}...`);
 
-          const checkResult = skill
-            ? skillCheck(char, skill as Skill, dc)
-            : abilityCheck(char, ability as Ability, dc);
+          // Monsters have no skill proficiencies, so they roll the plain ability
+          const light = "skills" in roller ? getCharacterLight(game, roller) : "bright";
+          const lightMod = getLightCheckModifier(light, skill as Skill | undefined);
+          const checkResult = !("skills" in roller)
+            ? enemyAbilityCheck(roller, ability as Ability, dc)
+            : skill
+            ? skillCheck(roller, skill as Skill, dc, lightMod)
+            : abilityCheck(roller, ability as Ability, dc);
 
           const modStr = checkResult.modifier >= 0 ? `+${checkResult.modifier}` : `${checkResult.modifier}`;
           const resultText = checkResult.success ? "SUCCESS" : "FAILURE";
@@ -352,31 +624,41 @@ ${characterContext}`;
             : checkResult.roll.isFumble
             ? " (Natural 1!)"
             : "";
+          const lightText = lightMod === "normal" ? "" : ` (${light === "dark" ? "darkness" : "dim light"})`;
 
           await addToTranscript(roomCode, {
             type: "dice",
-            content: `${char.name} ${skill || ability} check: [${checkResult.roll.natural}]${modStr} = ${checkResult.total} vs DC ${dc} - ${resultText}${critText}`,
+            content: `${roller.name} ${checkResult.skill || ability} check: [${checkResult.roll.natural}]${modStr} = ${checkResult.total} vs DC ${dc} - ${resultText}${critText}${lightText}`,
           });
 
+          // Social checks aimed at an NPC stick with them
+          if (npcId && checkResult.skill && isSocialSkill(checkResult.skill) && game.npcs[npcId]) {
+            const { shift, memory } = resolveSocialCheck(roller.name, checkResult.skill, checkResult.success, description);
+            const attitude = await updateNpc(roomCode, npcId, { memory, shift });
+            return { ...checkResult, npcAttitude: attitude };
+          }
+
           return checkResult;
         },
       },
 
       saving_throw: {
-        description: "Make a saving throw for a character",
+        description: "Make a saving throw for a character or enemy",
         inputSchema: savingThrowSchema,
         execute: async ({
           characterId,
           ability,
           dc,
           effect,
+          against,
         }: z.infer<typeof savingThrowSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
+          const game = await loadGame();
+          const char = getEffectTarget(game, characterId);
           if (!char) return { error: "Character not found" };
 
           await setThinking(roomCode, `${char.name} resists ${effect}...`);
 
-          const saveResult = savingThrow(char, ability as Ability, dc);
+          const saveResult = rollSavingThrow(char, ability as Ability, dc, "normal", against);
           const modStr = saveResult.modifier >= 0 ? `+${saveResult.modifier}` : `${saveResult.modifier}`;
           const resultText = saveResult.success ? "SUCCESS" : "FAILURE";
 
@@ -396,6 +678,7 @@ ${characterContext}`;
           attackerId,
           targetId,
         }: z.infer<typeof attackSchema>) => {
+          const game = await loadGame();
           const attacker = game.characters.find((c) => c.id === attackerId);
           const targetChar = game.characters.find((c) => c.id === targetId);
           const targetEnemy = game.combat?.enemies.find((e) => e.id === targetId);
@@ -404,14 +687,41 @@ ${characterContext}`;
           const target = targetChar || targetEnemy;
           if (!target) return { error: "Target not found" };
 
+          const weaponId = attacker.equippedWeapon || "dagger";
+          const weapon = attacker.inventory.find((i) => i.id === weaponId) as Weapon | undefined;
+
+          // Reach, range and flanking on the battle map. Only creatures that can
+          // act count as flanking, threatening the attacker or distracting the target.
+          const allies = game.characters
+            .filter((c) => c.id !== attackerId && c.currentHp > 0 && canTakeActions(c.conditions))
+            .map((c) => c.id);
+          const hostiles =
+            game.combat?.enemies.filter((e) => e.currentHp > 0 && canTakeActions(e.conditions)).map((e) => e.id) ?? [];
+          const position = game.combat
+            ? checkAttackPosition(game.combat, attackerId, targetId, getWeaponReach(weapon), allies, hostiles)
+            : { advantage: "normal" as const, ranged: false, notes: [] };
+          if ("error" in position) return { error: position.error };
+          const distance = game.combat ? getDistanceBetween(game.combat.map, attackerId, targetId) : null;
+          // Swinging at what you can't see in the dark, at something that may not see you either
+          const sight = getLightAttackModifier(
+            getCharacterLight(game, attacker),
+            targetChar ? getCharacterLight(game, targetChar) : targetEnemy ? getEnemyLight(game, targetEnemy) : "bright"
+          );
+          const notes = sight !== "normal" ? [...position.notes, "darkness"] : position.notes;
+
+          const actionError = await spendTurnResource(roomCode, attackerId, "action");
+          if (actionError) return { error: actionError };
+
           await setThinking(roomCode, `${attacker.name} attacks ${target.name}...`);
 
-          const weaponId = attacker.equippedWeapon || "dagger";
           const targetAC = targetChar?.armorClass ?? targetEnemy?.armorClass ?? 10;
           const attackResult = makeAttack(
             attacker,
             weaponId,
-            targetAC
+            targetAC,
+            combineAdvantage(position.advantage, sight),
+            target.conditions,
+            (distance ?? SQUARE_FEET) <= SQUARE_FEET
           );
 
           let totalDamage = attackResult.damage || 0;
@@ -419,11 +729,14 @@ ${characterContext}`;
 
           // Check for Sneak Attack (Rogues only)
           if (attackResult.hit && attacker.class === "rogue") {
-            const weapon = WEAPONS[weaponId as keyof typeof WEAPONS];
-            const weaponIsEligible = weapon && (isFinesse(weapon) || isRanged(weapon));
-            const hasAllyAdjacent = game.characters.length > 1; // Simplified: assume ally is nearby in combat
-
-            if (weaponIsEligible && hasAllyAdjacent) {
+            const sneakWeapon = WEAPONS[weaponId as keyof typeof WEAPONS];
+            const weaponIsEligible = sneakWeapon && (isFinesse(sneakWeapon) || isRanged(sneakWeapon));
+            // Needs advantage, or another enemy of the target right next to it
+            const hasAllyAdjacent = game.combat
+              ? allies.some((id) => (getDistanceBetween(game.combat!.map, id, targetId) ?? Infinity) <= SQUARE_FEET)
+              : game.characters.length > 1;
+
+            if (weaponIsEligible && (hasAllyAdjacent || attackResult.attackRoll.advantage === "advantage")) {
               const sneakDice = getSneakAttackDice(attacker.level);
               const sneakRoll = roll(sneakDice);
               sneakAttackDamage = sneakRoll.total;
@@ -432,6 +745,9 @@ ${characterContext}`;
           }
 
           let resultText = formatAttackResult(attacker.name, target.name, attackResult);
+          if (notes.length > 0) {
+            resultText += ` [${notes.join(", ")}]`;
+          }
           if (sneakAttackDamage > 0) {
             resultText += ` SNEAK ATTACK! +${sneakAttackDamage} damage!`;
           }
@@ -443,43 +759,29 @@ ${characterContext}`;
 
           // Apply damage if hit
           if (attackResult.hit && totalDamage > 0 && targetEnemy) {
-            const damageResult = applyDamageToEnemy(
-              targetEnemy,
+            const damageResult = await damageEnemy(
+              roomCode,
+              targetEnemy.id,
               totalDamage,
-              attackResult.damageType || "slashing"
+              attackResult.damageType || "slashing",
+              attackResult.critical
             );
 
-            // Update enemy HP in game state
-            if (game.combat) {
-              const enemyIdx = game.combat.enemies.findIndex((e) => e.id === targetId);
-              if (enemyIdx !== -1) {
-                game.combat.enemies[enemyIdx].currentHp = damageResult.newHp;
-                await updateGame(roomCode, { combat: game.combat });
-              }
+            for (const line of damageResult?.traitLog ?? []) {
+              await addToTranscript(roomCode, { type: "dice", content: line });
             }
 
-            if (damageResult.dead) {
+            if (damageResult?.dead) {
               await addToTranscript(roomCode, {
                 type: "combat",
                 content: `${target.name} is defeated!`,
               });
 
-              // Remove dead enemy from initiative order
-              if (game.combat) {
-                game.combat.initiativeOrder = game.combat.initiativeOrder.filter(
-                  (i) => i.id !== targetId
-                );
-                await updateGame(roomCode, { combat: game.combat });
-
-                // Check if all enemies are dead - end combat
-                const remainingEnemies = game.combat.enemies.filter((e) => e.currentHp > 0);
-                if (remainingEnemies.length === 0) {
-                  await addToTranscript(roomCode, {
-                    type: "system",
-                    content: "All enemies have been defeated! Combat ends.",
-                  });
-                  await updateGame(roomCode, { combat: null, phase: "exploration" });
-                }
+              if (damageResult.combatOver) {
+                await addToTranscript(roomCode, {
+                  type: "system",
+                  content: "All enemies have been defeated! Combat ends.",
+                });
               }
             }
           }
@@ -488,145 +790,25 @@ ${characterContext}`;
         },
       },
 
+      move_combatant: {
+        description: "Move a character to a square on the battle map",
+        inputSchema: moveCombatantSchema,
+        execute: async ({
+          characterId,
+          square,
+        }: z.infer<typeof moveCombatantSchema>) => moveCombatant(roomCode, characterId, square),
+      },
+
       cast_spell: {
         description: "Cast a spell",
         inputSchema: castSpellSchema,
         execute: async ({
           casterId,
           spellId,
-          targetId,
+          targetIds,
           spellLevel,
-        }: z.infer<typeof castSpellSchema>) => {
-          const caster = game.characters.find((c) => c.id === casterId);
-          if (!caster) return { error: "Caster not found" };
-
-          // Find the spell
-          const allSpells = { ...CANTRIPS, ...SPELLS_LEVEL_1, ...SPELLS_LEVEL_2 };
-          const spell = allSpells[spellId as keyof typeof allSpells];
-          if (!spell) return { error: `Unknown spell: ${spellId}` };
-
-          // Check if caster can cast this spell
-          if (!canCastSpell(caster, spell)) {
-            await addToTranscript(roomCode, {
-              type: "system",
-              content: `${caster.name} cannot cast ${spell.name}: no available spell slots`,
-            });
-            return { error: "Cannot cast spell - no available spell slots" };
-          }
-
-          await setThinking(roomCode, `${caster.name} casts ${spell.name}...`);
-
-          // Use spell slot if not a cantrip
-          if (spell.level > 0) {
-            const slotLevel = spellLevel || spell.level;
-            const updatedCaster = useSpellSlot(caster, slotLevel);
-            await updateCharacter(roomCode, casterId, {
-              spellSlots: updatedCaster.spellSlots,
-            });
-          }
-
-          let resultText = `${caster.name} casts ${spell.name}!`;
-          let concentrationMsg = "";
-
-          // Handle concentration
-          if (spell.concentration) {
-            // If already concentrating, end the previous spell
-            if (caster.concentrating) {
-              const prevSpell = [...Object.values(CANTRIPS), ...Object.values(SPELLS_LEVEL_1), ...Object.values(SPELLS_LEVEL_2)]
-                .find((s) => s.id === caster.concentrating);
-              concentrationMsg = ` (Ends concentration on ${prevSpell?.name || "previous spell"})`;
-            }
-            // Start concentrating on new spell
-            await updateCharacter(roomCode, casterId, { concentrating: spellId });
-            concentrationMsg += ` [Concentrating]`;
-          }
-
-          // Handle damage spells
-          if (spell.damage && spell.damageType) {
-            const target = targetId
-              ? game.characters.find((c) => c.id === targetId) ||
-                game.combat?.enemies.find((e) => e.id === targetId)
-              : null;
-
-            // Roll damage
-            const damageRoll = rollSpellDamage(spell, spellLevel || spell.level, false);
-            if (!damageRoll) {
-              return { error: "Failed to roll spell damage" };
-            }
-
-            // Check for saving throw
-            if (spell.savingThrow && target) {
-              const dc = getSpellSaveDC(caster);
-              const targetChar = game.characters.find((c) => c.id === targetId);
-
-              if (targetChar) {
-                const save = savingThrow(targetChar, spell.savingThrow, dc);
-                resultText += ` ${target.name} ${spell.savingThrow.toUpperCase()} save: [${save.roll.natural}] = ${save.total} vs DC ${dc} - ${save.success ? "SUCCESS" : "FAILURE"}`;
-
-                if (save.success) {
-                  // Most save spells do half damage on success
-                  resultText += ` (half damage)`;
-                }
-              }
-            }
-
-            resultText += ` Deals ${damageRoll.total} ${spell.damageType} damage.`;
-
-            // Apply damage to enemy target
-            if (target && targetId && game.combat?.enemies.find((e) => e.id === targetId)) {
-              const enemy = game.combat.enemies.find((e) => e.id === targetId)!;
-              const damageResult = applyDamageToEnemy(enemy, damageRoll.total, spell.damageType);
-
-              const enemyIdx = game.combat.enemies.findIndex((e) => e.id === targetId);
-              if (enemyIdx !== -1) {
-                game.combat.enemies[enemyIdx].currentHp = damageResult.newHp;
-                await updateGame(roomCode, { combat: game.combat });
-              }
-
-              if (damageResult.dead) {
-                resultText += ` ${enemy.name} is defeated!`;
-
-                // Remove dead enemy from initiative order
-                game.combat.initiativeOrder = game.combat.initiativeOrder.filter(
-                  (i) => i.id !== targetId
-                );
-                await updateGame(roomCode, { combat: game.combat });
-
-                // Check if all enemies are dead - end combat
-                const remainingEnemies = game.combat.enemies.filter((e) => e.currentHp > 0);
-                if (remainingEnemies.length === 0) {
-                  resultText += " All enemies have been defeated! Combat ends.";
-                  await updateGame(roomCode, { combat: null, phase: "exploration" });
-                }
-              }
-            }
-          }
-
-          // Handle healing spells
-          if (spellId === "cure_wounds" || spellId === "healing_word") {
-            const target = targetId
-              ? game.characters.find((c) => c.id === targetId)
-              : caster;
-
-            if (target) {
-              const healAmount = spellId === "cure_wounds"
-                ? Math.floor(Math.random() * 8) + 1 + (caster.spellcastingAbility ? Math.floor((caster.abilities[caster.spellcastingAbility] - 10) / 2) : 0)
-                : Math.floor(Math.random() * 4) + 1 + (caster.spellcastingAbility ? Math.floor((caster.abilities[caster.spellcastingAbility] - 10) / 2) : 0);
-
-              const healResult = healCharacter(target, healAmount);
-              await updateCharacter(roomCode, target.id, { currentHp: healResult.newHp });
-
-              resultText += ` ${target.name} heals ${healAmount} HP. (${healResult.newHp}/${target.maxHp} HP)`;
-            }
-          }
-
-          await addToTranscript(roomCode, {
-            type: "dice",
-            content: resultText + concentrationMsg,
-          });
-
-          return { success: true, spell: spell.name, concentrating: spell.concentration ? spellId : null };
-        },
+          square,
+        }: z.infer<typeof castSpellSchema>) => castSpell(roomCode, casterId, spellId, targetIds, spellLevel, square),
       },
 
       apply_damage: {
@@ -638,75 +820,19 @@ ${characterContext}`;
           damageType,
           source,
         }: z.infer<typeof damageSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
-          // Check if character was already unconscious (0 HP)
-          const wasUnconscious = char.currentHp <= 0;
-
           await setThinking(roomCode, `${char.name} takes damage...`);
 
-          const result = applyDamage(char, amount, damageType as DamageType);
-
-          const updates: Partial<Character> = {
-            currentHp: result.newHp,
-          };
-
-          let statusText = "";
-
-          // If already unconscious and takes damage, auto-fail death save
-          if (wasUnconscious && amount > 0) {
-            const newFailures = Math.min(3, char.deathSaves.failures + 1);
-            updates.deathSaves = {
-              successes: char.deathSaves.successes,
-              failures: newFailures,
-            };
-
-            if (newFailures >= 3) {
-              statusText = ` Taking damage while unconscious causes a death save failure! ${char.name} has DIED!`;
-            } else {
-              statusText = ` Taking damage while unconscious causes a death save failure! (${char.deathSaves.successes}/3 successes, ${newFailures}/3 failures)`;
-            }
-          } else if (result.dead) {
-            statusText = ` ${char.name} has died!`;
-            // End concentration on death
-            if (char.concentrating) {
-              updates.concentrating = null;
-            }
-          } else if (result.unconscious) {
-            statusText = ` ${char.name} falls unconscious!`;
-            // Reset death saves when first falling unconscious
-            updates.deathSaves = { successes: 0, failures: 0 };
-            // Add unconscious and prone conditions (per D&D 5e rules)
-            const newConditions: Condition[] = char.conditions.filter(c => c !== "unconscious" && c !== "prone");
-            newConditions.push("unconscious", "prone");
-            updates.conditions = newConditions;
-            // End concentration when falling unconscious
-            if (char.concentrating) {
-              updates.concentrating = null;
-              statusText += ` Loses concentration!`;
-            }
-          } else if (char.concentrating && !wasUnconscious) {
-            // Concentration save: DC = max(10, damage / 2)
-            const concentrationDC = Math.max(10, Math.floor(amount / 2));
-            const concSave = savingThrow(char, "constitution", concentrationDC);
-            const modStr = concSave.modifier >= 0 ? `+${concSave.modifier}` : `${concSave.modifier}`;
-
-            if (concSave.success) {
-              statusText += ` CONCENTRATION SAVE: [${concSave.roll.natural}]${modStr} = ${concSave.total} vs DC ${concentrationDC} - Maintained!`;
-            } else {
-              const lostSpell = [...Object.values(CANTRIPS), ...Object.values(SPELLS_LEVEL_1), ...Object.values(SPELLS_LEVEL_2)]
-                .find((s) => s.id === char.concentrating);
-              updates.concentrating = null;
-              statusText += ` CONCENTRATION SAVE: [${concSave.roll.natural}]${modStr} = ${concSave.total} vs DC ${concentrationDC} - FAILED! Loses ${lostSpell?.name || "spell"}!`;
-            }
-          }
+          const { result, updates, statusText } = resolveCharacterDamage(char, amount, damageType);
 
           await updateCharacter(roomCode, characterId, updates);
 
           await addToTranscript(roomCode, {
             type: "combat",
-            content: `${char.name} takes ${amount} ${damageType} damage from ${source}. (${result.newHp}/${char.maxHp} HP)${statusText}`,
+            content: `${char.name} takes ${result.damageTaken} ${damageType} damage from ${source}. (${result.newHp}/${char.maxHp} HP)${statusText}`,
           });
 
           return result;
@@ -721,6 +847,7 @@ ${characterContext}`;
           amount,
           source,
         }: z.infer<typeof healSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
@@ -760,6 +887,7 @@ ${characterContext}`;
         execute: async ({
           characterId,
         }: z.infer<typeof deathSaveSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
@@ -777,45 +905,9 @@ ${characterContext}`;
 
           await setThinking(roomCode, `${char.name} makes a death saving throw...`);
 
-          const result = rollDeathSave(char);
-
-          // Update death saves
-          const updates: Partial<Character> = {
-            deathSaves: {
-              successes: result.totalSuccesses,
-              failures: result.totalFailures,
-            },
-          };
-
-          // Natural 20: regain 1 HP and wake up
-          if (result.critical) {
-            updates.currentHp = 1;
-            updates.deathSaves = { successes: 0, failures: 0 }; // Reset on recovery
-            // Remove unconscious condition (keep prone - they're still on the ground)
-            updates.conditions = char.conditions.filter(c => c !== "unconscious");
-          }
-
+          const { result, updates, message } = resolveDeathSave(char);
           await updateCharacter(roomCode, characterId, updates);
 
-          // Build result message
-          let message = `${char.name} DEATH SAVE: [${result.roll.natural}]`;
-
-          if (result.critical) {
-            message += ` - NATURAL 20! ${char.name} regains 1 HP and wakes up!`;
-          } else if (result.fumble) {
-            message += ` - NATURAL 1! Two failures! (${result.totalSuccesses} successes, ${result.totalFailures} failures)`;
-          } else if (result.success) {
-            message += ` - Success! (${result.totalSuccesses}/3 successes, ${result.totalFailures}/3 failures)`;
-          } else {
-            message += ` - Failure! (${result.totalSuccesses}/3 successes, ${result.totalFailures}/3 failures)`;
-          }
-
-          if (result.stabilized && !result.critical) {
-            message += ` ${char.name} is STABILIZED!`;
-          } else if (result.dead) {
-            message += ` ${char.name} has DIED!`;
-          }
-
           await addToTranscript(roomCode, {
             type: "combat",
             content: message,
@@ -833,55 +925,23 @@ ${characterContext}`;
           condition,
           source,
           duration,
+          saveAbility,
+          saveDC,
         }: z.infer<typeof applyConditionSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
-          if (!char) return { error: "Character not found" };
-
-          // Check if already has this condition
-          if (char.conditions.includes(condition)) {
-            return { error: `${char.name} already has the ${condition} condition` };
-          }
-
-          await setThinking(roomCode, `${char.name} becomes ${condition}...`);
-
-          const newConditions = [...char.conditions, condition];
-          const updates: Partial<Character> = { conditions: newConditions };
-
-          // Special handling for incapacitating conditions
-          const incapacitatingConditions = ["incapacitated", "paralyzed", "petrified", "stunned", "unconscious"];
-          let extraMessage = "";
-
-          // Break concentration if incapacitated
-          if (incapacitatingConditions.includes(condition) && char.concentrating) {
-            updates.concentrating = null;
-            extraMessage = ` ${char.name} loses concentration!`;
-          }
-
-          // Unconscious also makes you prone
-          if (condition === "unconscious" && !char.conditions.includes("prone")) {
-            updates.conditions = [...newConditions, "prone"];
-          }
-
-          await updateCharacter(roomCode, characterId, updates);
-
-          const durationText = duration ? ` (${duration})` : "";
-          await addToTranscript(roomCode, {
-            type: "combat",
-            content: `${char.name} is now ${condition.toUpperCase()}${durationText} from ${source}.${extraMessage}`,
-          });
-
-          return { applied: condition, character: char.name };
+          const save = saveAbility && saveDC ? { ability: saveAbility, dc: saveDC } : undefined;
+          return applyCondition(roomCode, characterId, condition, source, { duration, save });
         },
       },
 
       remove_condition: {
-        description: "Remove a condition from a character",
+        description: "Remove a condition from a character or enemy",
         inputSchema: removeConditionSchema,
         execute: async ({
           characterId,
           condition,
         }: z.infer<typeof removeConditionSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
+          const game = await loadGame();
+          const char = getEffectTarget(game, characterId);
           if (!char) return { error: "Character not found" };
 
           if (!char.conditions.includes(condition as any)) {
@@ -891,7 +951,12 @@ ${characterContext}`;
           await setThinking(roomCode, `${char.name} is no longer ${condition}...`);
 
           const newConditions = char.conditions.filter((c) => c !== condition);
-          await updateCharacter(roomCode, characterId, { conditions: newConditions });
+          if ("skills" in char) {
+            await updateCharacter(roomCode, characterId, { conditions: newConditions });
+          } else {
+            await updateEnemy(roomCode, characterId, { conditions: newConditions });
+          }
+          await cancelEffect(roomCode, characterId, "condition", condition);
 
           await addToTranscript(roomCode, {
             type: "system",
@@ -911,6 +976,7 @@ ${characterContext}`;
           targetId,
           healingDistribution,
         }: z.infer<typeof useFeatureSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
@@ -927,6 +993,16 @@ ${characterContext}`;
             return { error: `${featureName} has no uses remaining (recharges on ${restType} rest)` };
           }
 
+          const featureCosts: Record<typeof featureName, ActionCost> = {
+            "Second Wind": "bonus_action",
+            "Action Surge": "free",
+            "Arcane Recovery": "free",
+            "Channel Divinity: Turn Undead": "action",
+            "Channel Divinity: Preserve Life": "action",
+          };
+          const actionError = await spendTurnResource(roomCode, characterId, featureCosts[featureName]);
+          if (actionError) return { error: actionError };
+
           await setThinking(roomCode, `${char.name} uses ${featureName}...`);
 
           let resultMessage = "";
@@ -943,8 +1019,14 @@ ${characterContext}`;
             }
 
             case "Action Surge": {
-              resultMessage = `${char.name} uses ACTION SURGE! They can take an additional action this turn.`;
-              break;
+              // Spends its own use, so it skips the generic consumption below
+              const surge = await takeActionSurge(roomCode, characterId);
+              if (surge.error) return { error: surge.error };
+              await addToTranscript(roomCode, {
+                type: "combat",
+                content: `${char.name} uses ACTION SURGE! They can take an additional action this turn.`,
+              });
+              return { used: featureName, character: char.name };
             }
 
             case "Arcane Recovery": {
@@ -1043,50 +1125,7 @@ ${characterContext}`;
         execute: async ({
           characterId,
           itemId,
-        }: z.infer<typeof equipItemSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
-          if (!char) return { error: "Character not found" };
-
-          const item = char.inventory.find((i) => i.id === itemId);
-          if (!item) return { error: "Item not found in inventory" };
-
-          await setThinking(roomCode, `${char.name} equips ${item.name}...`);
-
-          const updates: Partial<Character> = {};
-          let resultMessage = "";
-
-          if (item.type === "weapon") {
-            updates.equippedWeapon = itemId;
-            resultMessage = `${char.name} equips ${item.name}.`;
-          } else if (item.type === "armor") {
-            const armorItem = item as Armor;
-            if (armorItem.armorType === "shield") {
-              updates.equippedShield = itemId;
-              resultMessage = `${char.name} equips ${item.name}.`;
-            } else {
-              updates.equippedArmor = itemId;
-              // Recalculate AC
-              const newAC = calculateAC(
-                { ...char, equippedArmor: itemId },
-                armorItem,
-                !!char.equippedShield
-              );
-              updates.armorClass = newAC;
-              resultMessage = `${char.name} equips ${item.name}. (AC: ${newAC})`;
-            }
-          } else {
-            return { error: `Cannot equip ${item.name} - not a weapon or armor` };
-          }
-
-          await updateCharacter(roomCode, characterId, updates);
-
-          await addToTranscript(roomCode, {
-            type: "system",
-            content: resultMessage,
-          });
-
-          return { equipped: item.name, character: char.name };
-        },
+        }: z.infer<typeof equipItemSchema>) => equipItem(roomCode, characterId, itemId),
       },
 
       unequip_item: {
@@ -1096,6 +1135,7 @@ ${characterContext}`;
           characterId,
           slot,
         }: z.infer<typeof unequipItemSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
@@ -1145,65 +1185,7 @@ ${characterContext}`;
           characterId,
           itemId,
           targetId,
-        }: z.infer<typeof useItemSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
-          if (!char) return { error: "Character not found" };
-
-          const item = char.inventory.find((i) => i.id === itemId);
-          if (!item) return { error: "Item not found in inventory" };
-
-          if (item.type !== "potion") {
-            return { error: `Cannot use ${item.name} - not a consumable` };
-          }
-
-          const target = targetId
-            ? game.characters.find((c) => c.id === targetId)
-            : char;
-          if (!target) return { error: "Target not found" };
-
-          await setThinking(roomCode, `${char.name} uses ${item.name}...`);
-
-          let resultMessage = "";
-
-          // Handle potions
-          if (itemId === "potion_healing" || item.name.toLowerCase().includes("healing")) {
-            // Healing potion: 2d4+2
-            const healRoll = roll("2d4+2");
-            const healResult = healCharacter(target, healRoll.total);
-            await updateCharacter(roomCode, target.id, { currentHp: healResult.newHp });
-            resultMessage = `${char.name} uses ${item.name}! ${target.name} heals ${healRoll.total} HP. (${healResult.newHp}/${target.maxHp} HP)`;
-          } else if (itemId === "potion_greater_healing" || item.name.toLowerCase().includes("greater healing")) {
-            // Greater Healing potion: 4d4+4
-            const healRoll = roll("4d4+4");
-            const healResult = healCharacter(target, healRoll.total);
-            await updateCharacter(roomCode, target.id, { currentHp: healResult.newHp });
-            resultMessage = `${char.name} uses ${item.name}! ${target.name} heals ${healRoll.total} HP. (${healResult.newHp}/${target.maxHp} HP)`;
-          } else {
-            resultMessage = `${char.name} uses ${item.name}.`;
-          }
-
-          // Remove item from inventory (or reduce quantity)
-          const newInventory = char.inventory
-            .map((i) => {
-              if (i.id === itemId) {
-                if (i.quantity > 1) {
-                  return { ...i, quantity: i.quantity - 1 };
-                }
-                return null; // Remove item
-              }
-              return i;
-            })
-            .filter((i): i is InventoryItem => i !== null);
-
-          await updateCharacter(roomCode, characterId, { inventory: newInventory });
-
-          await addToTranscript(roomCode, {
-            type: "system",
-            content: resultMessage,
-          });
-
-          return { used: item.name, character: char.name };
-        },
+        }: z.infer<typeof useItemSchema>) => consumeItem(roomCode, characterId, itemId, targetId),
       },
 
       give_item: {
@@ -1215,53 +1197,7 @@ ${characterContext}`;
           itemType,
           quantity,
           description,
-        }: z.infer<typeof giveItemSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
-          if (!char) return { error: "Character not found" };
-
-          await setThinking(roomCode, `${char.name} receives ${itemName}...`);
-
-          // Create new item
-          const newItem: InventoryItem = {
-            id: `${itemType}_${Date.now()}`,
-            name: itemName,
-            type: itemType,
-            quantity: quantity || 1,
-            weight: 1, // Default weight
-            description,
-          };
-
-          // Check if it's a known item from equipment database
-          const knownWeapon = Object.values(WEAPONS).find(
-            (w) => w.name.toLowerCase() === itemName.toLowerCase()
-          );
-          const knownArmor = Object.values(ARMOR).find(
-            (a) => a.name.toLowerCase() === itemName.toLowerCase()
-          );
-          const knownGear = Object.values(GEAR).find(
-            (g) => g.name.toLowerCase() === itemName.toLowerCase()
-          );
-
-          let itemToAdd: InventoryItem = newItem;
-          if (knownWeapon) {
-            itemToAdd = { ...knownWeapon, quantity: quantity || 1 };
-          } else if (knownArmor) {
-            itemToAdd = { ...knownArmor, quantity: quantity || 1 };
-          } else if (knownGear) {
-            itemToAdd = { ...knownGear, quantity: quantity || 1 };
-          }
-
-          const newInventory = [...char.inventory, itemToAdd];
-          await updateCharacter(roomCode, characterId, { inventory: newInventory });
-
-          const qtyText = (quantity || 1) > 1 ? `${quantity}x ` : "";
-          await addToTranscript(roomCode, {
-            type: "system",
-            content: `${char.name} receives ${qtyText}${itemName}.`,
-          });
-
-          return { item: itemName, character: char.name };
-        },
+        }: z.infer<typeof giveItemSchema>) => giveItem(roomCode, characterId, itemName, itemType, quantity, description),
       },
 
       give_gold: {
@@ -1271,22 +1207,17 @@ ${characterContext}`;
           characterId,
           amount,
           source,
-        }: z.infer<typeof giveGoldSchema>) => {
-          const char = game.characters.find((c) => c.id === characterId);
-          if (!char) return { error: "Character not found" };
-
-          await setThinking(roomCode, `${char.name} receives gold...`);
-
-          const newGold = char.gold + amount;
-          await updateCharacter(roomCode, characterId, { gold: newGold });
-
-          await addToTranscript(roomCode, {
-            type: "system",
-            content: `${char.name} receives ${amount} gold from ${source}. (Total: ${newGold} gp)`,
-          });
+        }: z.infer<typeof giveGoldSchema>) => giveGold(roomCode, characterId, amount, source),
+      },
 
-          return { gold: amount, newTotal: newGold, character: char.name };
-        },
+      roll_loot: {
+        description: "Roll on a loot table and give the result to a character",
+        inputSchema: rollLootSchema,
+        execute: async ({
+          tableId,
+          characterId,
+          source,
+        }: z.infer<typeof rollLootSchema>) => rollLoot(roomCode, tableId, characterId, source),
       },
 
       end_concentration: {
@@ -1296,6 +1227,7 @@ ${characterContext}`;
           characterId,
           reason,
         }: z.infer<typeof endConcentrationSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
@@ -1309,6 +1241,7 @@ ${characterContext}`;
           await setThinking(roomCode, `${char.name} loses concentration...`);
 
           await updateCharacter(roomCode, characterId, { concentrating: null });
+          await cancelEffect(roomCode, characterId, "spell", char.concentrating);
 
           await addToTranscript(roomCode, {
             type: "system",
@@ -1325,6 +1258,7 @@ ${characterContext}`;
         execute: async ({
           characterId,
         }: z.infer<typeof levelUpSchema>) => {
+          const game = await loadGame();
           const char = game.characters.find((c) => c.id === characterId);
           if (!char) return { error: "Character not found" };
 
@@ -1398,6 +1332,8 @@ ${characterContext}`;
           hitDiceToSpend,
         }: z.infer<typeof restSchema>) => {
           await setThinking(roomCode, `The party takes a ${restType} rest...`);
+          const expired = await passTime(roomCode, restType === "short" ? SHORT_REST_MINUTES : LONG_REST_MINUTES);
+          const game = await loadGame();
 
           const results: string[] = [];
 
@@ -1413,8 +1349,7 @@ ${characterContext}`;
                 const conMod = getModifier(char.abilities.constitution);
 
                 for (let i = 0; i < diceToSpend; i++) {
-                  const roll = Math.floor(Math.random() * hitDieSize) + 1;
-                  healedAmount += Math.max(1, roll + conMod);
+                  healedAmount += Math.max(1, rollDie(hitDieSize) + conMod);
                 }
 
                 const newHp = Math.min(char.maxHp, char.currentHp + healedAmount);
@@ -1475,7 +1410,24 @@ ${characterContext}`;
           // Update phase
           await updateGame(roomCode, { phase: "exploration" });
 
-          return { restType, results };
+          return { restType, results, expired, time: formatClock(game.worldState.clock) };
+        },
+      },
+
+      pass_time: {
+        description: "Let time pass - waiting, searching, keeping watch",
+        inputSchema: passTimeSchema,
+        execute: async ({ minutes, reason }: z.infer<typeof passTimeSchema>) => {
+          const game = await loadGame();
+          if (game.combat) return { error: "Time passes round by round during combat" };
+
+          await addToTranscript(roomCode, {
+            type: "system",
+            content: `${formatDuration(minutes)} pass (${reason}). It is now ${formatClock(game.worldState.clock + minutes)}.`,
+          });
+          const expired = await passTime(roomCode, minutes);
+
+          return { time: formatClock(game.worldState.clock + minutes), expired };
         },
       },
 
@@ -1483,28 +1435,111 @@ ${characterContext}`;
         description: "Have an NPC speak",
         inputSchema: speakAsNpcSchema,
         execute: async ({
-          characterId,
+          npcId,
           situation,
         }: z.infer<typeof speakAsNpcSchema>) => {
-          const char = CHARACTERS[characterId];
-          await setThinking(roomCode, `Channeling ${char.name}...`);
+          const game = await loadGame();
+          const npc = game.npcs[npcId];
+          if (!npc) return { error: `Unknown NPC: ${npcId} - add them with add_npc first` };
+
+          await setThinking(roomCode, `Channeling ${npc.name}...`);
 
           const { text } = await generateText({
             model: anthropic("claude-sonnet-4-5"),
-            prompt: `You are ${char.name}. Voice: ${char.voice}. Secret (reveal only if dramatic): ${char.secret}\n\nSituation: ${situation}\n\nRespond in character, 1-2 sentences:`,
+            prompt: buildNpcPrompt(game, npc, situation),
             maxOutputTokens: 100,
           });
 
           await addToTranscript(roomCode, {
             type: "npc",
             content: text,
-            speaker: char.name,
+            speaker: npc.name,
           });
 
+          await updateNpc(roomCode, npcId, { memory: `${situation} - you said: "${text.trim()}"` });
+
           return { spoke: true };
         },
       },
 
+      add_npc: {
+        description: "Add a new NPC the party can talk to",
+        inputSchema: addNpcSchema,
+        execute: async ({
+          name,
+          description,
+          voice,
+          secret,
+          attitude,
+        }: z.infer<typeof addNpcSchema>) => {
+          const npc = await addNpc(roomCode, { name, description, voice, secret }, attitude);
+          if (!npc) return { error: `An NPC named ${name} already exists` };
+          return { npcId: npc.id, name: npc.name };
+        },
+      },
+
+      update_npc: {
+        description: "Record what an NPC remembers about the party, or shift their attitude",
+        inputSchema: updateNpcSchema,
+        execute: async ({
+          npcId,
+          memory,
+          attitudeChange,
+        }: z.infer<typeof updateNpcSchema>) => {
+          const attitude = await updateNpc(roomCode, npcId, { memory, shift: attitudeChange });
+          if (attitude === null) return { error: `Unknown NPC: ${npcId}` };
+          return { npcId, attitude };
+        },
+      },
+
+      offer_quest: {
+        description: "Offer the party a quest",
+        inputSchema: offerQuestSchema,
+        execute: async ({
+          title,
+          description,
+          giverId,
+          objectives,
+          xp,
+          gold,
+          items,
+        }: z.infer<typeof offerQuestSchema>) => {
+          return offerQuest(roomCode, {
+            title,
+            description,
+            giver: giverId ?? null,
+            objectives,
+            reward: { xp, gold: gold ?? 0, items: items ?? [] },
+          });
+        },
+      },
+
+      update_quest: {
+        description: "Accept a quest, complete objectives, or add new ones",
+        inputSchema: updateQuestSchema,
+        execute: async ({
+          questId,
+          accept,
+          completeObjectives,
+          addObjectives,
+        }: z.infer<typeof updateQuestSchema>) => {
+          return updateQuest(roomCode, questId, { accept, completeObjectives, addObjectives });
+        },
+      },
+
+      complete_quest: {
+        description: "Finish a quest and hand out its reward, or mark it failed",
+        inputSchema: completeQuestSchema,
+        execute: async ({
+          questId,
+          outcome,
+          recipientId,
+        }: z.infer<typeof completeQuestSchema>) => {
+          await setThinking(roomCode, outcome === "completed" ? "The party is rewarded..." : "The quest is lost...");
+          return completeQuest(roomCode, questId, outcome, recipientId);
+        },
+      },
+
       start_combat: {
         description: "Start combat with enemies",
         inputSchema: startCombatSchema,
@@ -1512,43 +1547,56 @@ ${characterContext}`;
           enemyType,
           count,
           environment,
-        }: z.infer<typeof startCombatSchema>) => {
-          await setThinking(roomCode, "Combat begins...");
+        }: z.infer<typeof startCombatSchema>) => beginCombat(roomCode, enemyType, count, environment),
+      },
 
-          const enemies = createEnemyGroup(enemyType, count);
-          if (enemies.length === 0) {
-            return { error: "Unknown enemy type" };
-          }
+      roll_encounter: {
+        description: "Start combat from a random encounter table",
+        inputSchema: rollEncounterSchema,
+        execute: async ({
+          tableId,
+          environment,
+        }: z.infer<typeof rollEncounterSchema>) => rollEncounter(roomCode, tableId, environment),
+      },
 
-          // Roll initiative for all
-          const playerInits = game.characters.map((c) => ({
-            character: c,
-            initiative: rollInitiative(c).total,
-          }));
+      move_party: {
+        description: "Move the party to a connected location",
+        inputSchema: movePartySchema,
+        execute: async ({ locationId }: z.infer<typeof movePartySchema>) => {
+          await setThinking(roomCode, "The party sets off...");
+          return moveParty(roomCode, locationId);
+        },
+      },
 
-          const enemyInits = enemies.map((e) => ({
-            enemy: e,
-            initiative: rollEnemyInitiative(e).total,
-          }));
+      discover_location: {
+        description: "Add a location to the party's map",
+        inputSchema: discoverLocationSchema,
+        execute: async ({ locationId }: z.infer<typeof discoverLocationSchema>) => discoverLocation(roomCode, locationId),
+      },
 
-          const combat = createCombatState(playerInits, enemyInits, environment);
+      advance_story: {
+        description: "Move the story to the next beat",
+        inputSchema: advanceStorySchema,
+        execute: async ({ beatId }: z.infer<typeof advanceStorySchema>) => {
+          await setThinking(roomCode, "The story moves on...");
+          return advanceStory(roomCode, beatId);
+        },
+      },
 
-          await updateGame(roomCode, {
-            combat,
-            phase: "combat",
-          });
+      end_turn: {
+        description: "End the current combatant's turn. Enemies whose turn comes next act automatically.",
+        inputSchema: endTurnSchema,
+        execute: async () => {
+          const current = await getGame(roomCode);
+          if (!current?.combat) return { error: "Not in combat" };
 
-          // Log initiative order
-          const initOrder = combat.initiativeOrder
-            .map((c) => `${c.name}: ${c.initiative}`)
-            .join(", ");
+          await setThinking(roomCode, "The enemies make their move...");
 
-          await addToTranscript(roomCode, {
-            type: "combat",
-            content: `COMBAT BEGINS! Initiative: ${initOrder}`,
-          });
+          const enemyActions = await endTurn(roomCode);
+          const updated = await getGame(roomCode);
+          const nextUp = updated?.characters.find((c) => c.id === updated.currentTurn);
 
-          return { combat };
+          return { enemyActions, nextTurn: nextUp?.name ?? null, combatOver: !updated?.combat };
         },
       },
 
@@ -1561,20 +1609,12 @@ ${characterContext}`;
         }: z.infer<typeof endCombatSchema>) => {
           await setThinking(roomCode, "Combat ends...");
 
-          await updateGame(roomCode, {
-            combat: null,
-            phase: "exploration",
-          });
+          await endCombat(roomCode);
 
           let message = `Combat ends: ${outcome.toUpperCase()}!`;
 
           if (outcome === "victory" && xpAwarded) {
-            // Award XP to all characters
-            for (const char of game.characters) {
-              await updateCharacter(roomCode, char.id, {
-                xp: char.xp + xpAwarded,
-              });
-            }
+            await awardXp(roomCode, xpAwarded);
             message += ` Each character gains ${xpAwarded} XP.`;
           }
 
@@ -1590,10 +1630,22 @@ ${characterContext}`;
     stopWhen: stepCountIs(6),
   });
 
-  // Collect the final narration
+  // Collect the final narration, streaming it to the room as it arrives
   let narration = "";
+  let pending = "";
+  let lastFlush = Date.now();
   for await (const chunk of result.textStream) {
     narration += chunk;
+    pending += chunk;
+    // Batch tokens so we aren't writing to the store for every one
+    if (Date.now() - lastFlush > NARRATION_FLUSH_MS) {
+      await streamNarration(roomCode, pending);
+      pending = "";
+      lastFlush = Date.now();
+    }
+  }
+  if (pending) {
+    await streamNarration(roomCode, pending);
   }
 
   // Clear thinking and add narration
@@ -1607,3 +1659,81 @@ ${characterContext}`;
 
   return narration;
 }
+
+/**
+ * Fold transcript entries the summary doesn't cover yet into it.
+ * Only runs once SUMMARY_EVERY entries have piled up, unless forced
+ * (then any new entry at all is enough). Returns the current summary text.
+ * Runs outside the room lock - the model call is slow - so it only writes
+ * if no other refresh has moved the summary on in the meantime.
+ */
+export async function refreshSummary(roomCode: string, force = false): Promise<string> {
+  const game = await getGame(roomCode);
+  if (!game) throw new Error("Game not found");
+
+  const summary = game.summary ?? { text: "", throughSeq: -1 };
+  const fresh = game.transcript.filter((e) => e.seq > summary.throughSeq && !e.recap);
+  if (fresh.length === 0 || (!force && fresh.length < SUMMARY_EVERY)) {
+    return summary.text;
+  }
+
+  const { text } = await generateText({
+    model: anthropic("claude-sonnet-4-5"),
+    system: `You keep the running summary of a D&D campaign for the Dungeon Master.
+Write plain text, past tense, no markdown, at most 200 words.
+Keep names, places, promises, grudges, loot and unresolved threads. Drop dice numbers and filler.`,
+    prompt: `Summary so far:\n${summary.text || "(the adventure has just begun)"}\n\nWhat happened since:\n${fresh
+      .map((e) => e.content)
+      .join("\n\n")}\n\nRewrite the summary to include what happened since:`,
+    maxOutputTokens: 400,
+  });
+
+  let next = { text: text.trim() || summary.text, throughSeq: fresh[fresh.length - 1].seq };
+  await mutateGame(roomCode, (game) => {
+    const current = game.summary ?? { text: "", throughSeq: -1 };
+    if (current.throughSeq !== summary.throughSeq) {
+      // Another refresh got there first - keep its summary
+      next = current;
+      return false;
+    }
+    game.summary = next;
+  });
+
+  return next.text;
+}
+
+/**
+ * Have the DM narrate events that were resolved without the model
+ * (e.g. enemy turns after a player ends their turn). No tools.
+ */
+export async function narrateEvents(roomCode: string, events: string[]) {
+  if (events.length === 0) return "";
+
+  const game = await getGame(roomCode);
+  if (!game) throw new Error("Game not found");
+
+  await setThinking(roomCode, "The Dungeon Master describes the clash...");
+
+  const systemPrompt = `${SYSTEM_BASE}
+${buildWorldKnowledge(game)}${buildStorySoFar(game)}
+CURRENT PARTY:
+${buildCharacterSummary(game.characters)}
+${buildCombatSummary(game)}`;
+
+  const { text } = await generateText({
+    model: anthropic("claude-sonnet-4-5"),
+    system: systemPrompt,
+    prompt: `These events were already resolved by the rules engine:\n${events.join("\n")}\n\nNarrate them as DM. Do not change any numbers:`,
+    maxOutputTokens: 300,
+  });
+
+  await setThinking(roomCode, null);
+  if (text.trim()) {
+    await addToTranscript(roomCode, {
+      type: "narration",
+      content: text.trim(),
+    });
+  }
+
+  return text;
+}
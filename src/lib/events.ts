@@ -0,0 +1,205 @@
+// Room events - the incremental changes pushed to clients over SSE.
+// Pure helpers only, so the room page can import this too.
+
+import type { Character } from "./character";
+import type { CombatState } from "./rules/combat";
+import type { GameState, Npc, ThinkingState, TranscriptEntry } from "./game-state";
+
+// The game as clients see it - GameState minus what only the server may know
+export type PublicNpc = Omit<Npc, "secret">;
+export type PublicGameState = Omit<GameState, "dice" | "npcs"> & { npcs: Record<string, PublicNpc> };
+
+export type RoomEvent =
+  | { type: "snapshot"; game: PublicGameState }
+  | { type: "transcript"; entry: TranscriptEntry }
+  | { type: "thinking"; thinking: ThinkingState | null }
+  | { type: "character"; id: string; changes: Partial<Character> }
+  | { type: "combat"; combat: CombatState | null }
+  | { type: "game"; changes: Partial<PublicGameState> }
+  | { type: "narration_delta"; text: string };
+
+export interface StoredEvent {
+  seq: number;
+  revision?: number; // game revision this event brought state up to (state events only)
+  event: RoomEvent;
+}
+
+// What changed since a client's revision cursor. Falls back to a full
+// snapshot when the event log can't account for every revision in between.
+export type GameDelta =
+  | { revision: number; snapshot: PublicGameState }
+  | {
+      revision: number;
+      transcript: TranscriptEntry[]; // new entries only
+      characters: Character[]; // full copies of characters that changed
+      changes: Partial<PublicGameState>; // other top-level fields that changed (combat, thinking, ...)
+    };
+
+// Top-level fields with their own event type (everything else goes out as a "game" event)
+const DEDICATED_FIELDS = new Set<keyof GameState>(["transcript", "thinking", "characters", "combat"]);
+
+// Never sent to clients: the dice stream would let anyone work out the next rolls
+const SERVER_ONLY_FIELDS = new Set<keyof GameState>(["dice"]);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The client's view of a game. Everything that leaves the server - API
+ * responses, stream snapshots and events - goes through here.
+ */
+export function toPublicGame(game: GameState): PublicGameState {
+  const visible = Object.fromEntries(
+    Object.entries(game).filter(([key]) => !SERVER_ONLY_FIELDS.has(key as keyof GameState))
+  ) as PublicGameState;
+  // NPCs keep their secrets until they tell them in play
+  visible.npcs = Object.fromEntries(
+    Object.entries(game.npcs ?? {}).map(([id, npc]) => [id, toPublicNpc(npc)])
+  );
+  return visible;
+}
+
+function toPublicNpc(npc: Npc): PublicNpc {
+  return {
+    id: npc.id,
+    name: npc.name,
+    description: npc.description,
+    voice: npc.voice,
+    memories: npc.memories,
+  };
+}
+
+/**
+ * Work out the events that turn `before` into `after`
+ */
+export function diffGame(before: GameState, after: GameState): RoomEvent[] {
+  const events: RoomEvent[] = [];
+
+  // New transcript entries (older ones only ever get trimmed off the front)
+  const seen = new Set(before.transcript.map((e) => e.id));
+  for (const entry of after.transcript) {
+    if (!seen.has(entry.id)) events.push({ type: "transcript", entry });
+  }
+
+  if (!same(before.thinking, after.thinking)) {
+    events.push({ type: "thinking", thinking: after.thinking });
+  }
+
+  // Only the fields of a character that actually changed
+  for (const character of after.characters) {
+    const previous = before.characters.find((c) => c.id === character.id);
+    const changes: Partial<Character> = {};
+    for (const key of Object.keys(character) as (keyof Character)[]) {
+      if (!previous || !same(previous[key], character[key])) {
+        Object.assign(changes, { [key]: character[key] });
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      events.push({ type: "character", id: character.id, changes });
+    }
+  }
+
+  if (!same(before.combat, after.combat)) {
+    events.push({ type: "combat", combat: after.combat });
+  }
+
+  const visibleBefore = toPublicGame(before);
+  const visibleAfter = toPublicGame(after);
+  const changes: Partial<PublicGameState> = {};
+  for (const key of Object.keys(visibleAfter) as (keyof PublicGameState)[]) {
+    if (DEDICATED_FIELDS.has(key)) continue;
+    if (!same(visibleBefore[key], visibleAfter[key])) {
+      Object.assign(changes, { [key]: visibleAfter[key] });
+    }
+  }
+  if (Object.keys(changes).length > 0) {
+    events.push({ type: "game", changes });
+  }
+
+  return events;
+}
+
+/**
+ * Build the delta from revision `since` up to the current game, using the event log
+ */
+export function buildDelta(game: GameState, log: StoredEvent[], since: number): GameDelta {
+  const events = log.filter(
+    (e) => e.revision !== undefined && e.revision > since && e.revision <= game.revision
+  );
+
+  // Every revision in between must have made it into the log, or we'd miss changes.
+  // The oldest revision may also have been half trimmed off the front of the log.
+  const logged = new Set(events.map((e) => e.revision));
+  const trimmed = events.length > 0 && events[0] === log[0] && log[0].seq !== 1;
+  const visible = toPublicGame(game);
+  for (let revision = since + 1; revision <= game.revision; revision++) {
+    if (trimmed || !logged.has(revision)) return { revision: game.revision, snapshot: visible };
+  }
+
+  const entryIds = new Set<string>();
+  const characterIds = new Set<string>();
+  const fields = new Set<keyof PublicGameState>();
+
+  for (const { event } of events) {
+    switch (event.type) {
+      case "transcript":
+        entryIds.add(event.entry.id);
+        break;
+      case "character":
+        characterIds.add(event.id);
+        break;
+      case "thinking":
+      case "combat":
+        fields.add(event.type);
+        break;
+      case "game":
+        for (const key of Object.keys(event.changes)) {
+          // Events logged before a field was made server-only may still name it
+          if (key in visible) fields.add(key as keyof PublicGameState);
+        }
+        break;
+    }
+  }
+
+  return {
+    revision: game.revision,
+    transcript: game.transcript.filter((e) => entryIds.has(e.id)),
+    characters: game.characters.filter((c) => characterIds.has(c.id)),
+    changes: Object.fromEntries([...fields].map((key) => [key, visible[key]])),
+  };
+}
+
+/**
+ * Apply an event to a client's copy of the game.
+ * Narration deltas aren't state - callers handle those themselves.
+ */
+export function applyRoomEvent<T extends PublicGameState>(game: T, event: RoomEvent): T {
+  switch (event.type) {
+    case "snapshot":
+      return event.game as T;
+
+    // Unlike the server's copy, a client's transcript isn't trimmed - it keeps what it's seen
+    case "transcript":
+      if (game.transcript.some((e) => e.id === event.entry.id)) return game;
+      return { ...game, transcript: [...game.transcript, event.entry] };
+
+    case "thinking":
+      return { ...game, thinking: event.thinking };
+
+    case "character": {
+      const exists = game.characters.some((c) => c.id === event.id);
+      const characters = exists
+        ? game.characters.map((c) => (c.id === event.id ? { ...c, ...event.changes } : c))
+        : [...game.characters, event.changes as Character];
+      return { ...game, characters };
+    }
+
+    case "combat":
+      return { ...game, combat: event.combat };
+
+    case "game":
+      return { ...game, ...event.changes };
+
+    default:
+      return game;
+  }
+}
@@ -1,9 +1,16 @@
-import { kv } from "@vercel/kv";
-import { Character, CharacterClass, Race } from "./character";
-import { CombatState } from "./rules/combat";
+import { Ability, Character, CharacterClass, Condition, InventoryItem, Race } from "./character";
+import { CombatState, Enemy, getEndOfTurnRound } from "./rules/combat";
+import { getStore, TRANSCRIPT_CHUNK_SIZE } from "./store";
+import { Adventure, DEFAULT_ADVENTURE_ID, getAdventure } from "./adventure";
+import { EffectDuration, LightLevel, TimeOfDay, clockAt } from "./clock";
+import { getLightLevel } from "./locations";
+import { getLightSeen, seeWithDarkvision } from "./rules/races";
+import { createBattleMap } from "./rules/grid";
+import { RoomEvent, diffGame } from "./events";
 
 export interface GameState {
   roomCode: string;
+  adventureId: string; // which module the room is playing (see adventure.ts)
 
   // Players & Characters
   players: Player[];
@@ -11,8 +18,12 @@ export interface GameState {
 
   // Game Progress
   transcript: TranscriptEntry[];
+  summary: CampaignSummary;
   storyBeat: string;
   worldState: WorldState;
+  npcs: Record<string, Npc>;
+  quests: Record<string, Quest>;
+  activeEffects: ActiveEffect[]; // spells and conditions with a duration or a save to end them
 
   // Combat
   combat: CombatState | null;
@@ -21,9 +32,13 @@ export interface GameState {
   currentTurn: string | null; // character ID whose turn it is
   phase: "character_creation" | "exploration" | "combat" | "social" | "rest";
 
+  // Dice
+  dice: DiceState;
+
   // Meta
   thinking: ThinkingState | null;
   lastUpdate: number;
+  revision: number; // bumped on every write, used for compare-and-swap
 }
 
 export interface Player {
@@ -35,10 +50,70 @@ export interface Player {
 
 export interface WorldState {
   location: string;
-  timeOfDay: "dawn" | "morning" | "noon" | "afternoon" | "evening" | "twilight" | "night";
+  clock: number; // minutes since midnight on day 1 - time of day comes from this (see clock.ts)
   discoveredLocations: string[];
-  questFlags: Record<string, boolean>;
-  npcRelationships: Record<string, number>; // -100 to 100
+  questFlags: Record<string, boolean>; // finished objectives, keyed "questId.objectiveId" (see quests.ts)
+  npcRelationships: Record<string, number>; // attitude by NPC id, -100 to 100
+}
+
+export interface Npc {
+  id: string;
+  name: string;
+  description: string;
+  voice: string;
+  secret: string;
+  memories: NpcMemory[]; // oldest first, capped (see npcs.ts)
+}
+
+export interface Quest {
+  id: string;
+  title: string;
+  description: string;
+  giver: string | null; // NPC id, if someone asked
+  state: "offered" | "active" | "completed" | "failed";
+  objectives: QuestObjective[]; // progress lives in worldState.questFlags
+  reward: QuestReward;
+}
+
+export interface QuestObjective {
+  id: string;
+  text: string;
+}
+
+export interface QuestReward {
+  xp: number; // each character
+  gold: number; // each character
+  items: { name: string; type: InventoryItem["type"] }[]; // to whoever the DM picks
+}
+
+export interface ActiveEffect {
+  id: string;
+  targetId: string; // character or enemy it's on
+  kind: "condition" | "spell" | "concentration"; // concentration: the caster holding up a spell on others
+  key: string; // condition name or spell ID
+  name: string; // for the log - "Bless", "paralyzed"
+  source: string; // "Hold Person (Mira)", "giant spider bite"
+  expiresAt: number | null; // clock minute; null lasts until removed
+  endsAfterTurn?: { combatantId: string; round: number }; // in combat, ends at the end of this turn instead
+  save?: { ability: Ability; dc: number }; // the target repeats the save at the end of each of its turns
+  concentration?: { casterId: string; spellId: string }; // ends when the caster stops concentrating
+}
+
+export interface NpcMemory {
+  text: string;
+  ts: number;
+}
+
+export interface CampaignSummary {
+  text: string; // rolling "story so far", rewritten by the DM as the transcript grows
+  throughSeq: number; // last transcript entry the summary covers (-1 before the first one)
+}
+
+export interface DiceState {
+  seed: number; // the room's random stream (see randomAt in rules/dice.ts) - secret until rolled with
+  nonce: string; // 128 random bits hashed in with the seed, so the published hash can't be brute-forced
+  draws: number; // how far into the stream we are
+  rolls: number; // rolls logged so far
 }
 
 export interface ThinkingState {
@@ -48,105 +123,503 @@ export interface ThinkingState {
 
 export interface TranscriptEntry {
   id: string;
+  seq: number; // position in the room's full history, starting at 0
   type: "narration" | "player" | "dice" | "npc" | "combat" | "system";
   content: string;
   speaker?: string;
   characterId?: string;
+  recap?: boolean; // a "previously on" recap of the summary, kept out of the summary itself
   ts: number;
 }
 
-const INTRO = `
-╔════════════════════════════════════════════════════════════════╗
-║            THE CURSE OF THE CRIMSON CITADEL                    ║
-╚════════════════════════════════════════════════════════════════╝
+const TRANSCRIPT_HOT_SIZE = 100; // entries kept on GameState; the rest live in the archive
+const LOCK_TTL_MS = 60_000; // matches the action route's maxDuration in vercel.json
+const LOCK_WAIT_MS = 20_000;
+const MAX_WRITE_ATTEMPTS = 5;
 
-The road to Ashwick is longer than the maps suggested. Twilight
-paints the sky amber and violet as you crest the hill.
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-Below: a village. Thatched roofs huddled against the forest.
-
-Beyond: the Crimson Citadel. Red stone walls drinking the last
-light. Something wrong emanates from those ancient towers.
+export class RoomBusyError extends Error {
+  constructor(code: string) {
+    super(`Room ${code} is busy with another action`);
+    this.name = "RoomBusyError";
+  }
+}
 
-A weathered sign: "ASHWICK - Travelers Welcome"
+/**
+ * The NPCs an adventure starts with, and their starting attitudes
+ */
+export function createNpcRegistry(adventure: Adventure): { npcs: Record<string, Npc>; attitudes: Record<string, number> } {
+  const npcs: Record<string, Npc> = {};
+  const attitudes: Record<string, number> = {};
+  for (const [id, { attitude, ...npc }] of Object.entries(adventure.npcs)) {
+    npcs[id] = { id, ...npc, memories: [] };
+    attitudes[id] = attitude;
+  }
+  return { npcs, attitudes };
+}
 
-What do you do?`.trim();
+/**
+ * A fresh random stream for a room
+ */
+export function createDiceState(): DiceState {
+  const nonce = Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString("hex");
+  return { seed: crypto.getRandomValues(new Uint32Array(1))[0], nonce, draws: 0, rolls: 0 };
+}
 
 export async function getGame(code: string): Promise<GameState | null> {
-  return kv.get<GameState>(`game:${code}`);
+  const game = await getStore().get(code);
+  return game && upgradeGame(game);
 }
 
-export async function createGame(code: string): Promise<GameState> {
+/**
+ * Fill in what rooms saved by older versions are missing, so everything
+ * else can count on the current shape. Edits the game in place.
+ */
+function upgradeGame(game: GameState): GameState {
+  game.adventureId ??= DEFAULT_ADVENTURE_ID;
+  const adventure = getAdventure(game.adventureId);
+
+  const world = game.worldState as WorldState & { timeOfDay?: TimeOfDay };
+  if (world.clock === undefined) {
+    world.clock = clockAt(world.timeOfDay ?? adventure.startingTimeOfDay);
+    delete world.timeOfDay;
+  }
+  world.discoveredLocations ??= [world.location];
+  world.questFlags ??= {};
+
+  // Rooms from before NPCs were tracked meet the adventure's cast now
+  if (!game.npcs) {
+    const { npcs, attitudes } = createNpcRegistry(adventure);
+    game.npcs = npcs;
+    world.npcRelationships = { ...attitudes, ...world.npcRelationships };
+  }
+  game.quests ??= {};
+  game.activeEffects ??= [];
+
+  // A summary that has never run should still take in the intro (seq 0)
+  if (!game.summary || (!game.summary.text && game.summary.throughSeq === 0)) {
+    game.summary = { text: "", throughSeq: -1 };
+  }
+
+  // Entries from before they were numbered start the count - nothing older was kept
+  if (game.transcript.some((e) => e.seq === undefined)) {
+    game.transcript = game.transcript.map((e, seq) => ({ ...e, seq }));
+  }
+
+  // A fight that started before the battle map lines up the usual way
+  if (game.combat && !game.combat.map) {
+    const order = game.combat.initiativeOrder;
+    game.combat.map = createBattleMap(
+      order.filter((c) => c.type === "player").map((c) => c.characterId ?? c.id),
+      order.filter((c) => c.type === "enemy").map((c) => c.id)
+    );
+  }
+
+  return game;
+}
+
+export async function createGame(code: string, adventureId: string = DEFAULT_ADVENTURE_ID): Promise<GameState> {
+  const adventure = getAdventure(adventureId);
+  const { npcs, attitudes } = createNpcRegistry(adventure);
   const state: GameState = {
     roomCode: code,
+    adventureId: adventure.id,
     players: [],
     characters: [],
     transcript: [
       {
         id: "intro",
+        seq: 0,
         type: "narration",
-        content: INTRO,
+        content: adventure.intro,
         ts: Date.now(),
       },
     ],
-    storyBeat: "intro",
+    summary: { text: "", throughSeq: -1 },
+    storyBeat: adventure.startBeat,
     worldState: {
-      location: "road_to_ashwick",
-      timeOfDay: "twilight",
-      discoveredLocations: ["road_to_ashwick"],
+      location: adventure.startingLocation,
+      clock: clockAt(adventure.startingTimeOfDay),
+      discoveredLocations: [adventure.startingLocation],
       questFlags: {},
-      npcRelationships: {},
+      npcRelationships: attitudes,
     },
+    npcs,
+    quests: {},
+    activeEffects: [],
     combat: null,
     currentTurn: null,
     phase: "character_creation",
+    dice: createDiceState(),
     thinking: null,
     lastUpdate: Date.now(),
+    revision: 1,
   };
-  await kv.set(`game:${code}`, state, { ex: 86400 * 7 }); // 7 day expiry
+
+  // Only create if nobody beat us to it
+  const created = await getStore().create(code, state);
+  if (!created) {
+    const existing = await getGame(code);
+    if (existing) return existing;
+  }
+  await archiveTranscript(code, state.transcript);
   return state;
 }
 
-export async function updateGame(
+/**
+ * Atomically read-modify-write a game.
+ * The mutator edits a fresh copy in place (return false to abort without writing).
+ * The write only lands if nobody else wrote in between; otherwise we re-read and retry.
+ */
+export async function mutateGame(
   code: string,
-  updates: Partial<GameState>
+  mutator: (game: GameState) => void | false
 ): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game) return null;
-  const updated = { ...game, ...updates, lastUpdate: Date.now() };
-  await kv.set(`game:${code}`, updated, { ex: 86400 * 7 });
-  return updated;
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const current = await getGame(code);
+    if (!current) return null;
+
+    const draft = structuredClone(current);
+    if (mutator(draft) === false) return current;
+
+    const expected = current.revision ?? 0;
+    draft.revision = expected + 1;
+    draft.lastUpdate = Date.now();
+
+    if (await getStore().compareAndSet(code, draft, expected)) {
+      const events = diffGame(current, draft);
+      await archiveTranscript(
+        code,
+        events.flatMap((e) => (e.type === "transcript" ? [e.entry] : []))
+      );
+      await publishEvents(code, events, draft.revision);
+      return draft;
+    }
+
+    // Someone else wrote first - back off a little and try again
+    await sleep(20 * (attempt + 1) + Math.random() * 30);
+  }
+
+  throw new Error(`Could not update game ${code}: too many concurrent writes`);
 }
 
-export async function addToTranscript(
+/**
+ * Push events to the room's stream. The state write has already landed by
+ * the time we get here, so a failure only costs live updates - log it and move on.
+ */
+export async function publishEvents(
   code: string,
-  entry: Omit<TranscriptEntry, "id" | "ts">
-): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game) return null;
+  events: RoomEvent[],
+  revision?: number
+): Promise<void> {
+  if (events.length === 0) return;
+  try {
+    await getStore().appendEvents(code, events, revision);
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+/**
+ * Push a chunk of narration still being written to the room. It goes to the
+ * short-lived live log rather than the event log, so a long narration can't
+ * crowd out the state changes `?since=` deltas are built from.
+ */
+export async function streamNarration(code: string, text: string): Promise<void> {
+  try {
+    await getStore().appendLiveEvents(code, [{ type: "narration_delta", text }]);
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+/**
+ * Copy new transcript entries into the archive, chunked by seq.
+ * Like publishEvents, runs after the state write - a failure is logged, not thrown.
+ */
+async function archiveTranscript(code: string, entries: TranscriptEntry[]): Promise<void> {
+  const chunks = new Map<number, TranscriptEntry[]>();
+  for (const entry of entries) {
+    const chunk = Math.floor(entry.seq / TRANSCRIPT_CHUNK_SIZE);
+    chunks.set(chunk, [...(chunks.get(chunk) ?? []), entry]);
+  }
+
+  try {
+    for (const [chunk, chunkEntries] of chunks) {
+      await getStore().appendTranscriptChunk(code, chunk, chunkEntries);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+/**
+ * Page backwards through the full transcript: up to `limit` entries with
+ * seq below `before` (or the newest ones), oldest first
+ */
+export async function getTranscriptPage(
+  code: string,
+  before: number | null,
+  limit: number
+): Promise<{ entries: TranscriptEntry[]; hasMore: boolean }> {
+  let end = before;
+  if (end === null) {
+    const game = await getGame(code);
+    end = (game?.transcript.at(-1)?.seq ?? -1) + 1;
+  }
+
+  const entries: TranscriptEntry[] = [];
+  for (let chunk = Math.floor((end - 1) / TRANSCRIPT_CHUNK_SIZE); chunk >= 0; chunk--) {
+    const stored = await getStore().readTranscriptChunk(code, chunk);
+    entries.unshift(...stored.filter((e) => e.seq < end).sort((a, b) => a.seq - b.seq));
+    if (entries.length >= limit) break;
+  }
+
+  const page = entries.slice(-limit);
+  return { entries: page, hasMore: page.length > 0 && page[0].seq > 0 };
+}
+
+/**
+ * Append an entry to the game's transcript, numbering it and trimming the
+ * hot copy (older entries stay in the archive)
+ */
+function pushTranscript(game: GameState, entry: Omit<TranscriptEntry, "id" | "ts" | "seq">): void {
   game.transcript.push({
     ...entry,
     id: crypto.randomUUID(),
+    seq: (game.transcript.at(-1)?.seq ?? -1) + 1,
     ts: Date.now(),
   });
-  // Keep last 100 entries
-  if (game.transcript.length > 100) {
-    game.transcript = game.transcript.slice(-100);
+  if (game.transcript.length > TRANSCRIPT_HOT_SIZE) {
+    game.transcript = game.transcript.slice(-TRANSCRIPT_HOT_SIZE);
   }
-  game.lastUpdate = Date.now();
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
-  return game;
+}
+
+/**
+ * Run fn while holding the room's action lock, so actions in one room
+ * happen one at a time. Throws RoomBusyError if the lock can't be had in time.
+ */
+export async function withRoomLock<T>(code: string, fn: () => Promise<T>): Promise<T> {
+  const token = crypto.randomUUID();
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  const store = getStore();
+
+  while (!(await store.acquireLock(code, token, LOCK_TTL_MS))) {
+    if (Date.now() > deadline) throw new RoomBusyError(code);
+    await sleep(250);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await store.releaseLock(code, token);
+  }
+}
+
+export async function updateGame(
+  code: string,
+  updates: Partial<GameState>
+): Promise<GameState | null> {
+  return mutateGame(code, (game) => {
+    Object.assign(game, updates);
+  });
+}
+
+export async function addToTranscript(
+  code: string,
+  entry: Omit<TranscriptEntry, "id" | "ts" | "seq">
+): Promise<GameState | null> {
+  return mutateGame(code, (game) => pushTranscript(game, entry));
 }
 
 export async function setThinking(
   code: string,
   phase: string | null
 ): Promise<void> {
-  const game = await getGame(code);
-  if (!game) return;
-  game.thinking = phase ? { active: true, phase } : null;
-  game.lastUpdate = Date.now();
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
+  await mutateGame(code, (game) => {
+    game.thinking = phase ? { active: true, phase } : null;
+  });
+}
+
+// ============= TIME & EFFECTS =============
+
+/**
+ * Who an effect is on: a character, or an enemy still standing in the
+ * current fight
+ */
+export function getEffectTarget(game: GameState, targetId: string): Character | Enemy | null {
+  return (
+    game.characters.find((c) => c.id === targetId) ??
+    game.combat?.enemies.find((e) => e.id === targetId && e.currentHp > 0) ??
+    null
+  );
+}
+
+/**
+ * How light it is where the party is, as a character sees it (darkvision
+ * turns darkness to dim light and dim light to bright)
+ */
+export function getCharacterLight(game: GameState, character: Character): LightLevel {
+  const { location, clock } = game.worldState;
+  return getLightSeen(character.race, getLightLevel(getAdventure(game.adventureId), location, clock));
+}
+
+/**
+ * How light it is where the party is, as a monster sees it. Only stat
+ * blocks with darkvision see in the dark.
+ */
+export function getEnemyLight(game: GameState, enemy: Enemy): LightLevel {
+  const { location, clock } = game.worldState;
+  const light = getLightLevel(getAdventure(game.adventureId), location, clock);
+  return enemy.darkvision ? seeWithDarkvision(light) : light;
+}
+
+/**
+ * Effects that are still running. Conditions can be removed, concentration
+ * broken and fights ended without going through here, so those drop out.
+ */
+export function getActiveEffects(game: GameState): ActiveEffect[] {
+  return game.activeEffects.filter((effect) => {
+    const target = getEffectTarget(game, effect.targetId);
+    if (!target) return false;
+    if (effect.kind === "condition" && !target.conditions.includes(effect.key as Condition)) return false;
+    if (effect.concentration) {
+      const caster = game.characters.find((c) => c.id === effect.concentration!.casterId);
+      if (caster?.concentrating !== effect.concentration.spellId) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * End effects on a game being mutated: conditions come off and concentration
+ * ends. Returns the log lines.
+ */
+function expireEffects(game: GameState, ids: string[]): string[] {
+  const log: string[] = [];
+  const active = getActiveEffects(game);
+
+  for (const effect of active.filter((e) => ids.includes(e.id))) {
+    const target = getEffectTarget(game, effect.targetId)!;
+    if (effect.kind === "condition") {
+      target.conditions = target.conditions.filter((c) => c !== effect.key);
+      log.push(`${target.name} is no longer ${effect.key.toUpperCase()} (${effect.source}).`);
+    } else {
+      if ("concentrating" in target && target.concentrating === effect.key) target.concentrating = null;
+      log.push(`${target.name}'s ${effect.name} ends.`);
+    }
+  }
+
+  game.activeEffects = active.filter((e) => !ids.includes(e.id));
+  // Whatever the ended spells were holding up goes with them
+  log.push(...dropReleasedEffects(game));
+  return log;
+}
+
+/**
+ * Drop effects whose caster has stopped concentrating, taking their
+ * conditions off the targets. Returns the log lines.
+ */
+function dropReleasedEffects(game: GameState): string[] {
+  const log: string[] = [];
+  const active = getActiveEffects(game);
+
+  for (const effect of game.activeEffects) {
+    if (!effect.concentration || active.includes(effect)) continue;
+    const target = getEffectTarget(game, effect.targetId);
+    if (effect.kind === "condition" && target?.conditions.includes(effect.key as Condition)) {
+      target.conditions = target.conditions.filter((c) => c !== effect.key);
+      log.push(`${target.name} is no longer ${effect.key.toUpperCase()} (${effect.source}).`);
+    }
+  }
+
+  game.activeEffects = active;
+  return log;
+}
+
+/**
+ * Move the clock forward and end whatever has run out. Effects that count
+ * rounds are left to the turn order while a fight is on. Returns the log lines.
+ */
+export async function passTime(code: string, minutes: number): Promise<string[]> {
+  let log: string[] = [];
+
+  await mutateGame(code, (game) => {
+    log = [];
+    if (minutes <= 0) return false;
+    game.worldState.clock += minutes;
+
+    const now = game.worldState.clock;
+    const expired = getActiveEffects(game).filter(
+      (e) => e.expiresAt !== null && e.expiresAt <= now && !(game.combat && e.endsAfterTurn)
+    );
+    log = expireEffects(game, expired.map((e) => e.id));
+
+    for (const line of log) pushTranscript(game, { type: "system", content: line });
+  });
+
+  return log;
+}
+
+/**
+ * Start an effect, replacing the same one on the same target. In combat,
+ * effects that count rounds end at the end of `turnOf`'s turn (the caster,
+ * or the target if nobody is named).
+ */
+export async function addEffect(
+  code: string,
+  effect: Omit<ActiveEffect, "id" | "expiresAt" | "endsAfterTurn">,
+  duration: EffectDuration | null,
+  turnOf: string = effect.targetId
+): Promise<void> {
+  await mutateGame(code, (game) => {
+    const round = duration?.rounds && game.combat ? getEndOfTurnRound(game.combat, turnOf, duration.rounds) : null;
+    game.activeEffects = game.activeEffects.filter(
+      (e) => !(e.targetId === effect.targetId && e.kind === effect.kind && e.key === effect.key)
+    );
+    game.activeEffects.push({
+      ...effect,
+      id: crypto.randomUUID(),
+      expiresAt: duration ? game.worldState.clock + duration.minutes : null,
+      ...(round !== null && { endsAfterTurn: { combatantId: turnOf, round } }),
+    });
+  });
+}
+
+/**
+ * End effects early - a save succeeded or a turn ran out. Returns the log lines.
+ */
+export async function endEffects(code: string, ids: string[]): Promise<string[]> {
+  let log: string[] = [];
+
+  await mutateGame(code, (game) => {
+    log = [];
+    if (ids.length === 0) return false;
+    log = expireEffects(game, ids);
+    for (const line of log) pushTranscript(game, { type: "system", content: line });
+  });
+
+  return log;
+}
+
+/**
+ * Forget an effect that ended some other way
+ */
+export async function cancelEffect(
+  code: string,
+  targetId: string,
+  kind: ActiveEffect["kind"],
+  key: string
+): Promise<void> {
+  await mutateGame(code, (game) => {
+    const remaining = game.activeEffects.filter(
+      (e) => !(e.targetId === targetId && e.kind === kind && e.key === key)
+    );
+    if (remaining.length === game.activeEffects.length) return false;
+    game.activeEffects = remaining;
+  });
 }
 
 // ============= PLAYER MANAGEMENT =============
@@ -155,24 +628,25 @@ export async function addPlayer(
   code: string,
   playerName: string
 ): Promise<{ game: GameState; playerId: string } | null> {
-  const game = await getGame(code);
-  if (!game) return null;
+  const playerId = crypto.randomUUID();
+  let joined = false;
 
-  // Check if we have room (max 4 players)
-  if (game.players.length >= 4) return null;
+  const game = await mutateGame(code, (game) => {
+    // Check if we have room (max 4 players)
+    if (game.players.length >= 4) return false;
 
-  const playerId = crypto.randomUUID();
-  const player: Player = {
-    id: playerId,
-    name: playerName,
-    joinedAt: Date.now(),
-    characterId: null,
-  };
+    const player: Player = {
+      id: playerId,
+      name: playerName,
+      joinedAt: Date.now(),
+      characterId: null,
+    };
 
-  game.players.push(player);
-  game.lastUpdate = Date.now();
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
+    game.players.push(player);
+    joined = true;
+  });
 
+  if (!game || !joined) return null;
   return { game, playerId };
 }
 
@@ -192,37 +666,39 @@ export async function addCharacter(
   playerId: string,
   character: Character
 ): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game) return null;
-
-  // Find the player
-  const playerIndex = game.players.findIndex((p) => p.id === playerId);
-  if (playerIndex === -1) return null;
-
-  // Add character and link to player
-  game.characters.push(character);
-  game.players[playerIndex].characterId = character.id;
-
-  // Check if all players have characters - if so, start exploration
-  const allHaveCharacters = game.players.every((p) => p.characterId !== null);
-  if (allHaveCharacters && game.players.length > 0) {
-    game.phase = "exploration";
-
-    // Add a narration introducing the characters
-    const charIntros = game.characters.map(
-      (c) => `${c.name}, the ${c.race} ${c.class}`
-    );
-    game.transcript.push({
-      id: crypto.randomUUID(),
-      type: "system",
-      content: `Heroes assembled: ${charIntros.join(", ")}. The adventure begins!`,
-      ts: Date.now(),
-    });
-  }
+  let added = false;
+
+  const game = await mutateGame(code, (game) => {
+    added = false;
+    // Find the player
+    const playerIndex = game.players.findIndex((p) => p.id === playerId);
+    if (playerIndex === -1) return false;
+
+    // Checked again here, so two requests at once can't both make one
+    if (game.players[playerIndex].characterId !== null) return false;
+
+    // Add character and link to player
+    game.characters.push(character);
+    game.players[playerIndex].characterId = character.id;
+    added = true;
+
+    // Check if all players have characters - if so, start exploration
+    const allHaveCharacters = game.players.every((p) => p.characterId !== null);
+    if (allHaveCharacters && game.players.length > 0) {
+      game.phase = "exploration";
+
+      // Add a narration introducing the characters
+      const charIntros = game.characters.map(
+        (c) => `${c.name}, the ${c.race} ${c.class}`
+      );
+      pushTranscript(game, {
+        type: "system",
+        content: `Heroes assembled: ${charIntros.join(", ")}. The adventure begins!`,
+      });
+    }
+  });
 
-  game.lastUpdate = Date.now();
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
-  return game;
+  return added ? game : null;
 }
 
 export async function getCharacter(
@@ -239,16 +715,33 @@ export async function updateCharacter(
   characterId: string,
   updates: Partial<Character>
 ): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game) return null;
+  let found = false;
+
+  const game = await mutateGame(code, (game) => {
+    const charIndex = game.characters.findIndex((c) => c.id === characterId);
+    if (charIndex === -1) return false;
+
+    const concentrating = game.characters[charIndex].concentrating;
+    game.characters[charIndex] = { ...game.characters[charIndex], ...updates };
+    found = true;
+
+    // A condition that came off (a sleeper woke up) takes its effect with it,
+    // and so does a timed unconscious once they're dying instead
+    const character = game.characters[charIndex];
+    game.activeEffects = game.activeEffects.filter(
+      (e) =>
+        e.targetId !== characterId ||
+        e.kind !== "condition" ||
+        (character.conditions.includes(e.key as Condition) && !(e.key === "unconscious" && character.currentHp <= 0))
+    );
 
-  const charIndex = game.characters.findIndex((c) => c.id === characterId);
-  if (charIndex === -1) return null;
+    // Losing concentration ends what the spell was doing to others
+    if (game.characters[charIndex].concentrating !== concentrating) {
+      for (const line of dropReleasedEffects(game)) pushTranscript(game, { type: "system", content: line });
+    }
+  });
 
-  game.characters[charIndex] = { ...game.characters[charIndex], ...updates };
-  game.lastUpdate = Date.now();
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
-  return game;
+  return found ? game : null;
 }
 
 // ============= COMBAT MANAGEMENT =============
@@ -257,44 +750,56 @@ export async function startCombat(
   code: string,
   combatState: CombatState
 ): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game) return null;
-
-  game.combat = combatState;
-  game.phase = "combat";
-  game.currentTurn =
-    combatState.initiativeOrder[0]?.characterId ||
-    combatState.initiativeOrder[0]?.id ||
-    null;
-  game.lastUpdate = Date.now();
-
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
-  return game;
+  return mutateGame(code, (game) => {
+    game.combat = combatState;
+    game.phase = "combat";
+    game.currentTurn =
+      combatState.initiativeOrder[0]?.characterId ||
+      combatState.initiativeOrder[0]?.id ||
+      null;
+  });
 }
 
 export async function endCombat(code: string): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game) return null;
-
-  game.combat = null;
-  game.phase = "exploration";
-  game.currentTurn = null;
-  game.lastUpdate = Date.now();
-
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
-  return game;
+  return mutateGame(code, (game) => {
+    game.combat = null;
+    game.phase = "exploration";
+    game.currentTurn = null;
+  });
 }
 
 export async function updateCombat(
   code: string,
   combatUpdates: Partial<CombatState>
 ): Promise<GameState | null> {
-  const game = await getGame(code);
-  if (!game || !game.combat) return null;
+  let inCombat = false;
 
-  game.combat = { ...game.combat, ...combatUpdates };
-  game.lastUpdate = Date.now();
+  const game = await mutateGame(code, (game) => {
+    if (!game.combat) return false;
+    game.combat = { ...game.combat, ...combatUpdates };
+    inCombat = true;
+  });
 
-  await kv.set(`game:${code}`, game, { ex: 86400 * 7 });
-  return game;
+  return inCombat ? game : null;
+}
+
+/**
+ * Update a single enemy in the current combat
+ */
+export async function updateEnemy(
+  code: string,
+  enemyId: string,
+  updates: Partial<Enemy>
+): Promise<GameState | null> {
+  let found = false;
+
+  const game = await mutateGame(code, (game) => {
+    const enemyIndex = game.combat?.enemies.findIndex((e) => e.id === enemyId) ?? -1;
+    if (!game.combat || enemyIndex === -1) return false;
+
+    game.combat.enemies[enemyIndex] = { ...game.combat.enemies[enemyIndex], ...updates };
+    found = true;
+  });
+
+  return found ? game : null;
 }
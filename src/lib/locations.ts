@@ -0,0 +1,55 @@
+// Location graph helpers - exits and travel times.
+
+import type { WorldState } from "./game-state";
+import { Adventure, AdventureLocation, LocationExit } from "./adventure";
+import { LightLevel, getDaylight } from "./clock";
+
+// What the party can see of the map - no hidden exits, no places they haven't found
+export interface MapView {
+  here: { name: string; description: string; light: LightLevel } | null;
+  exits: { to: string; name: string | null; minutes: number }[]; // name is null until discovered
+  known: { id: string; name: string }[];
+}
+
+export function getLocation(adventure: Adventure, locationId: string): AdventureLocation | null {
+  return adventure.locations[locationId] ?? null;
+}
+
+/**
+ * How light it is at a location: its own lighting if it has any, otherwise daylight
+ */
+export function getLightLevel(adventure: Adventure, locationId: string, clock: number): LightLevel {
+  return getLocation(adventure, locationId)?.light ?? getDaylight(clock);
+}
+
+/**
+ * Exits the party can see from a location. Hidden ones only show up
+ * once their destination has been discovered.
+ */
+export function getVisibleExits(adventure: Adventure, locationId: string, discovered: string[]): LocationExit[] {
+  const location = getLocation(adventure, locationId);
+  if (!location) return [];
+  return location.exits.filter((exit) => !exit.hidden || discovered.includes(exit.to));
+}
+
+/**
+ * The map as the players see it, for the map panel
+ */
+export function getMapView(adventure: Adventure, world: WorldState): MapView {
+  const here = getLocation(adventure, world.location);
+  const nameOf = (id: string) => getLocation(adventure, id)?.name ?? id;
+
+  return {
+    here: here && {
+      name: here.name,
+      description: here.description,
+      light: getLightLevel(adventure, world.location, world.clock),
+    },
+    exits: getVisibleExits(adventure, world.location, world.discoveredLocations).map((exit) => ({
+      to: exit.to,
+      name: world.discoveredLocations.includes(exit.to) ? nameOf(exit.to) : null,
+      minutes: exit.minutes,
+    })),
+    known: world.discoveredLocations.map((id) => ({ id, name: nameOf(id) })),
+  };
+}
@@ -0,0 +1,155 @@
+// NPC registry - who the party has met, how they feel about the party,
+// and what they remember. Attitudes live in worldState.npcRelationships.
+
+import { GameState, Npc, mutateGame } from "./game-state";
+
+// Memories kept per NPC; the oldest are forgotten first
+export const NPC_MEMORY_LIMIT = 20;
+
+const ATTITUDE_MIN = -100;
+const ATTITUDE_MAX = 100;
+
+// How a social check moves an NPC's attitude toward the party
+const SOCIAL_SHIFTS: Record<string, { success: number; failure: number }> = {
+  persuasion: { success: 10, failure: -5 },
+  deception: { success: 0, failure: -20 },
+  intimidation: { success: -5, failure: -15 },
+  performance: { success: 5, failure: -5 },
+};
+
+/**
+ * Describe an attitude score in words
+ */
+export function getAttitudeLabel(attitude: number): string {
+  if (attitude <= -60) return "hostile";
+  if (attitude <= -20) return "unfriendly";
+  if (attitude < 20) return "indifferent";
+  if (attitude < 60) return "friendly";
+  return "devoted";
+}
+
+/**
+ * Turn a name into a registry id: "Old Tom Barrow" -> "old_tom_barrow"
+ */
+export function getNpcId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * Whether a skill check against an NPC should move their attitude
+ */
+export function isSocialSkill(skill: string): boolean {
+  return skill in SOCIAL_SHIFTS;
+}
+
+/**
+ * Attitude change and memory for a social check made against an NPC
+ */
+export function resolveSocialCheck(
+  characterName: string,
+  skill: string,
+  success: boolean,
+  description: string
+): { shift: number; memory: string } {
+  const shifts = SOCIAL_SHIFTS[skill] ?? { success: 0, failure: 0 };
+  const shift = success ? shifts.success : shifts.failure;
+
+  let memory: string;
+  if (skill === "deception") {
+    memory = success
+      ? `${characterName} told you something and you believed it: ${description}`
+      : `${characterName} lied to you and you saw through it: ${description}`;
+  } else {
+    memory = `${characterName} tried ${skill.replace(/_/g, " ")} on you (${description}) - it ${success ? "worked" : "failed"}`;
+  }
+
+  return { shift, memory };
+}
+
+/**
+ * Add an NPC to the room. Returns null if one with the same id already exists.
+ */
+export async function addNpc(
+  code: string,
+  npc: Omit<Npc, "id" | "memories">,
+  attitude: number = 0
+): Promise<Npc | null> {
+  const id = getNpcId(npc.name);
+  if (!id) return null;
+
+  let added: Npc | null = null;
+
+  await mutateGame(code, (game) => {
+    if (game.npcs[id]) return false;
+    added = { ...npc, id, memories: [] };
+    game.npcs[id] = added;
+    game.worldState.npcRelationships[id] = clampAttitude(attitude);
+  });
+
+  return added;
+}
+
+/**
+ * Update what an NPC remembers and how they feel about the party.
+ * Returns the new attitude, or null if there's no such NPC.
+ */
+export async function updateNpc(
+  code: string,
+  npcId: string,
+  { memory, shift = 0 }: { memory?: string; shift?: number }
+): Promise<number | null> {
+  let attitude: number | null = null;
+
+  await mutateGame(code, (game) => {
+    const npc = game.npcs[npcId];
+    if (!npc) return false;
+
+    if (memory) {
+      npc.memories.push({ text: memory, ts: Date.now() });
+      if (npc.memories.length > NPC_MEMORY_LIMIT) {
+        npc.memories = npc.memories.slice(-NPC_MEMORY_LIMIT);
+      }
+    }
+
+    attitude = clampAttitude((game.worldState.npcRelationships[npcId] ?? 0) + shift);
+    game.worldState.npcRelationships[npcId] = attitude;
+  });
+
+  return attitude;
+}
+
+// NPC roster for DM context
+export function buildNpcRoster(game: GameState): string {
+  const npcs = Object.values(game.npcs);
+  if (npcs.length === 0) return "No NPCs met yet.";
+
+  return npcs
+    .map((npc) => {
+      const attitude = game.worldState.npcRelationships[npc.id] ?? 0;
+      return `- ${npc.id}: ${npc.name}, ${npc.description} [${getAttitudeLabel(attitude)} ${attitude}]`;
+    })
+    .join("\n");
+}
+
+// Prompt for an NPC speaking in their own voice
+export function buildNpcPrompt(game: GameState, npc: Npc, situation: string): string {
+  const attitude = game.worldState.npcRelationships[npc.id] ?? 0;
+  const memories = npc.memories.length > 0
+    ? npc.memories.map((m) => `- ${m.text}`).join("\n")
+    : "- Nothing yet. You haven't dealt with these travelers before.";
+
+  return `You are ${npc.name}, ${npc.description}. Voice: ${npc.voice}. Secret (reveal only if dramatic): ${npc.secret}
+
+How you feel about the party: ${getAttitudeLabel(attitude)} (${attitude} on a scale of -100 to 100). Let it show.
+
+What you remember of them:
+${memories}
+
+Situation: ${situation}
+
+Respond in character, 1-2 sentences:`;
+}
+
+function clampAttitude(attitude: number): number {
+  return Math.max(ATTITUDE_MIN, Math.min(ATTITUDE_MAX, Math.round(attitude)));
+}
@@ -0,0 +1,38 @@
+// Quest log helpers. Quests live on the game; which objectives are done
+// lives in worldState.questFlags. Pure, so the quest panel can use them too.
+
+import type { Quest, WorldState } from "./game-state";
+
+/**
+ * Turn a title into a quest id: "The Missing Miller" -> "the_missing_miller"
+ */
+export function getQuestId(title: string): string {
+  return title.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * The questFlags key for one objective
+ */
+export function getObjectiveFlag(questId: string, objectiveId: string): string {
+  return `${questId}.${objectiveId}`;
+}
+
+export function isObjectiveDone(world: WorldState, questId: string, objectiveId: string): boolean {
+  return !!world.questFlags[getObjectiveFlag(questId, objectiveId)];
+}
+
+export function getQuestProgress(world: WorldState, quest: Quest): { done: number; total: number } {
+  const done = quest.objectives.filter((o) => isObjectiveDone(world, quest.id, o.id)).length;
+  return { done, total: quest.objectives.length };
+}
+
+/**
+ * "200 XP, 50 gold each, Potion of Healing"
+ */
+export function formatReward(quest: Quest): string {
+  const parts: string[] = [];
+  if (quest.reward.xp > 0) parts.push(`${quest.reward.xp} XP`);
+  if (quest.reward.gold > 0) parts.push(`${quest.reward.gold} gold each`);
+  parts.push(...quest.reward.items.map((i) => i.name));
+  return parts.join(", ") || "nothing";
+}
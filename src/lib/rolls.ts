@@ -0,0 +1,110 @@
+// Seeded, logged dice for a room. Actions run inside withRoomDice, so every
+// roll draws from the room's random stream and lands in its roll log, where
+// anyone can check it against the seed (randomAt in rules/dice.ts).
+// The seed is committed to before it's used - only a hash of it and a random
+// nonce is published - and both are revealed on the log once an action has
+// rolled with them, when the room moves on to fresh ones. Nobody can work out
+// a roll before it's made.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { DiceContext, RollResult, randomAt, setDiceContextProvider } from "./rules/dice";
+import { createDiceState, getGame, mutateGame } from "./game-state";
+import { getStore } from "./store";
+
+export interface RollLogEntry {
+  id: string;
+  seq: number;
+  notation: string;
+  rolls: number[];
+  modifier: number;
+  total: number;
+  draws: [number, number]; // [first, end) positions in the room's random stream
+  seed: number; // the stream's seed, revealed once the action that rolled is over
+  nonce: string; // hashed in with the seed for the commitment, revealed with it
+  ts: number;
+}
+
+const diceContext = new AsyncLocalStorage<DiceContext>();
+setDiceContextProvider(() => diceContext.getStore() ?? null);
+
+/**
+ * Run fn with the room's dice. Rolls made inside are numbered and stamped
+ * onto their RollResult; the stream position and log are saved when fn finishes.
+ * Callers should hold the room lock, so no one else draws from the stream meanwhile.
+ */
+export async function withRoomDice<T>(code: string, fn: () => Promise<T>): Promise<T> {
+  const game = await getGame(code);
+  if (!game) return fn();
+
+  // Dice from before the nonce were committed to by a hash anyone could brute-force, so they start over
+  const dice = game.dice?.nonce ? game.dice : { ...createDiceState(), rolls: game.dice?.rolls ?? 0 };
+  const { seed, nonce, draws: startDraws, rolls: startRolls } = dice;
+  let draws = startDraws;
+  let seq = startRolls;
+  let rollStart: number | null = null;
+  const log: RollLogEntry[] = [];
+
+  const context: DiceContext = {
+    random: () => {
+      rollStart ??= draws;
+      return randomAt(seed, draws++);
+    },
+    onRoll: (notation: string, result: RollResult) => {
+      const entry: RollLogEntry = {
+        id: crypto.randomUUID(),
+        seq: ++seq,
+        notation,
+        rolls: result.rolls,
+        modifier: result.modifier,
+        total: result.total,
+        draws: [rollStart ?? draws, draws],
+        seed,
+        nonce,
+        ts: Date.now(),
+      };
+      result.id = entry.id;
+      result.seq = entry.seq;
+      log.push(entry);
+      rollStart = null;
+    },
+  };
+
+  try {
+    return await diceContext.run(context, fn);
+  } finally {
+    if (draws !== startDraws || dice !== game.dice) {
+      // The log reveals this seed, so later rolls need a new one
+      const next = draws !== startDraws ? createDiceState() : { seed, nonce, draws };
+      await mutateGame(code, (g) => {
+        g.dice = { ...next, rolls: seq };
+      });
+      await getStore().appendRolls(code, log);
+    }
+  }
+}
+
+/**
+ * What a room publishes ahead of its rolls: a SHA-256 of "seed:nonce", so
+ * players can check afterwards that the revealed seed wasn't swapped. The
+ * nonce keeps the 32-bit seed from being found by trying them all.
+ */
+export function hashSeed(seed: number, nonce: string): string {
+  return createHash("sha256").update(`${seed}:${nonce}`).digest("hex");
+}
+
+/**
+ * The room's roll log after a sequence number, with what's needed to verify it.
+ * Logged rolls carry their seeds; the one the next rolls will use is only hashed.
+ */
+export async function getRollLog(code: string, afterSeq: number) {
+  const game = await getGame(code);
+  if (!game) return null;
+
+  return {
+    algorithm: "mulberry32",
+    // Rooms from before seeded (or salted) dice get new ones on their next action
+    nextSeedHash: game.dice?.nonce ? hashSeed(game.dice.seed, game.dice.nonce) : null,
+    rolls: await getStore().readRolls(code, afterSeq),
+  };
+}
@@ -5,10 +5,14 @@ import {
   Ability,
   Skill,
   Condition,
+  DamageType,
   getModifier,
   getSkillAbility,
 } from "../character";
+import type { LightLevel } from "../clock";
 import { roll, RollResult, AdvantageType, meetsDC } from "./dice";
+import { hasSaveAdvantage, isLucky } from "./races";
+import type { Enemy } from "./combat";
 
 // ============= CONDITION EFFECTS ON CHECKS =============
 
@@ -55,6 +59,27 @@ export function getConditionSaveModifier(conditions: Condition[], ability: Abili
   return "normal";
 }
 
+/**
+ * Get advantage/disadvantage for a check from how well the character can see.
+ * Dim light lightly obscures things (disadvantage on Perception); darkness
+ * heavily obscures them, which we treat the same for checks.
+ */
+export function getLightCheckModifier(light: LightLevel, skill?: Skill): AdvantageType {
+  return skill === "perception" && light !== "bright" ? "disadvantage" : "normal";
+}
+
+/**
+ * Get advantage/disadvantage for an attack from how well each side can see.
+ * Attacking what you can't see is at disadvantage, and a target that can't
+ * see you is attacked with advantage - in the dark on both sides they cancel.
+ */
+export function getLightAttackModifier(attackerLight: LightLevel, targetLight: LightLevel): AdvantageType {
+  return combineAdvantage(
+    attackerLight === "dark" ? "disadvantage" : "normal",
+    targetLight === "dark" ? "advantage" : "normal"
+  );
+}
+
 /**
  * Check if character auto-fails certain saves due to conditions
  */
@@ -113,7 +138,7 @@ export function abilityCheck(
   const finalAdvantage = combineAdvantage(advantage, conditionMod);
 
   const modifier = getModifier(character.abilities[ability]);
-  const rollResult = roll(`1d20+${modifier}`, finalAdvantage);
+  const rollResult = roll(`1d20+${modifier}`, finalAdvantage, { lucky: isLucky(character.race) });
 
   return {
     roll: rollResult,
@@ -151,7 +176,7 @@ export function skillCheck(
   const totalProfBonus = hasExpertise ? profBonus * 2 : profBonus;
 
   const modifier = abilityMod + totalProfBonus;
-  const rollResult = roll(`1d20+${modifier}`, finalAdvantage);
+  const rollResult = roll(`1d20+${modifier}`, finalAdvantage, { lucky: isLucky(character.race) });
 
   return {
     roll: rollResult,
@@ -166,13 +191,15 @@ export function skillCheck(
 }
 
 /**
- * Make a saving throw
+ * Make a saving throw. `against` is the condition or damage type the save is
+ * against, for racial traits like Brave.
  */
 export function savingThrow(
   character: Character,
   ability: Ability,
   dc: number,
-  advantage: AdvantageType = "normal"
+  advantage: AdvantageType = "normal",
+  against?: Condition | DamageType
 ): CheckResult {
   // Check for auto-fail conditions (paralyzed, stunned, etc.)
   if (autoFailsSave(character.conditions, ability)) {
@@ -187,16 +214,17 @@ export function savingThrow(
     };
   }
 
-  // Apply condition modifiers
+  // Apply condition and racial modifiers
   const conditionMod = getConditionSaveModifier(character.conditions, ability);
-  const finalAdvantage = combineAdvantage(advantage, conditionMod);
+  const raceMod = against && hasSaveAdvantage(character.race, against) ? "advantage" : "normal";
+  const finalAdvantage = combineAdvantage(combineAdvantage(advantage, conditionMod), raceMod);
 
   const abilityMod = getModifier(character.abilities[ability]);
   const proficient = character.savingThrows.includes(ability);
   const profBonus = proficient ? character.proficiencyBonus : 0;
 
   const modifier = abilityMod + profBonus;
-  const rollResult = roll(`1d20+${modifier}`, finalAdvantage);
+  const rollResult = roll(`1d20+${modifier}`, finalAdvantage, { lucky: isLucky(character.race) });
 
   return {
     roll: rollResult,
@@ -209,6 +237,82 @@ export function savingThrow(
   };
 }
 
+/**
+ * Make a saving throw for a monster. Stat blocks here don't list save
+ * proficiencies, so it's the plain ability modifier.
+ */
+export function enemySavingThrow(
+  enemy: Enemy,
+  ability: Ability,
+  dc: number,
+  advantage: AdvantageType = "normal"
+): CheckResult {
+  if (autoFailsSave(enemy.conditions, ability)) {
+    return {
+      roll: { total: 0, rolls: [0], modifier: 0, natural: 0, isCritical: false, isFumble: false },
+      modifier: 0,
+      total: 0,
+      success: false,
+      dc,
+      ability,
+      proficient: false,
+    };
+  }
+
+  const finalAdvantage = combineAdvantage(advantage, getConditionSaveModifier(enemy.conditions, ability));
+  const modifier = getModifier(enemy.abilities[ability]);
+  const rollResult = roll(`1d20+${modifier}`, finalAdvantage);
+
+  return {
+    roll: rollResult,
+    modifier,
+    total: rollResult.total,
+    success: meetsDC(rollResult, dc),
+    dc,
+    ability,
+    proficient: false,
+  };
+}
+
+/**
+ * Make an ability check for a monster
+ */
+export function enemyAbilityCheck(
+  enemy: Enemy,
+  ability: Ability,
+  dc: number,
+  advantage: AdvantageType = "normal"
+): CheckResult {
+  const finalAdvantage = combineAdvantage(advantage, getConditionCheckModifier(enemy.conditions, ability));
+  const modifier = getModifier(enemy.abilities[ability]);
+  const rollResult = roll(`1d20+${modifier}`, finalAdvantage);
+
+  return {
+    roll: rollResult,
+    modifier,
+    total: rollResult.total,
+    success: meetsDC(rollResult, dc),
+    dc,
+    ability,
+    proficient: false,
+  };
+}
+
+/**
+ * Make a saving throw for whoever is in the way - a character or a monster
+ */
+export function rollSavingThrow(
+  creature: Character | Enemy,
+  ability: Ability,
+  dc: number,
+  advantage: AdvantageType = "normal",
+  against?: Condition | DamageType
+): CheckResult {
+  return "savingThrows" in creature
+    ? savingThrow(creature, ability, dc, advantage, against)
+    : enemySavingThrow(creature, ability, dc, advantage);
+}
+
 /**
  * Get expertise skills for a character (rogues get expertise)
  */
@@ -7,9 +7,22 @@ import {
   getModifier,
   Weapon,
 } from "../character";
-import { roll, rollDamage, RollResult, AdvantageType, meetsAC } from "./dice";
-import { getAttackBonus, getDamageBonus } from "./abilities";
+import { roll, rollDamage, rollDie, RollResult, AdvantageType, meetsAC } from "./dice";
+import { getAttackBonus, getDamageBonus, savingThrow } from "./abilities";
 import { WEAPONS, isFinesse, isRanged } from "./equipment";
+import { ALL_SPELLS } from "./spells";
+import { getRaceResistances, isLucky } from "./races";
+import type { EnemyTrait } from "./enemies";
+import {
+  BattleMap,
+  Position,
+  SQUARE_FEET,
+  createBattleMap,
+  formatSquare,
+  getDistance,
+  getDistanceBetween,
+  isFlanking,
+} from "./grid";
 
 // ============= COMBAT STATE =============
 
@@ -20,6 +33,7 @@ export interface CombatState {
   initiativeOrder: CombatantInit[];
   enemies: Enemy[];
   environment: string;
+  map: BattleMap;
   log: CombatLogEntry[];
 }
 
@@ -30,8 +44,21 @@ export interface CombatantInit {
   initiative: number;
   hasActed: boolean;
   characterId?: string;  // For player characters
+  speed: number;
+  resources: TurnResources;
 }
 
+// What a combatant has left to spend this turn
+export interface TurnResources {
+  actions: number;       // Normally 1; Action Surge grants another
+  bonusAction: boolean;
+  reaction: boolean;     // Refreshes at the start of the combatant's own turn
+  movement: number;      // Feet remaining
+  surged: boolean;       // Action Surge already used this turn
+}
+
+export type ActionCost = "action" | "bonus_action" | "reaction" | "free";
+
 export interface Enemy {
   id: string;
   name: string;
@@ -39,6 +66,7 @@ export interface Enemy {
   currentHp: number;
   armorClass: number;
   speed: number;
+  darkvision?: number; // Range in feet, undefined if none
   abilities: {
     strength: number;
     dexterity: number;
@@ -54,6 +82,8 @@ export interface Enemy {
   vulnerabilities?: DamageType[];
   resistances?: DamageType[];
   immunities?: DamageType[];
+  conditionImmunities?: Condition[];
+  traits?: EnemyTrait[]; // run by the rules in traits.ts
 }
 
 export interface EnemyAttack {
@@ -104,7 +134,7 @@ export interface DeathSaveResult {
  */
 export function rollInitiative(character: Character): RollResult {
   const dexMod = getModifier(character.abilities.dexterity);
-  return roll(`1d20+${dexMod}`);
+  return roll(`1d20+${dexMod}`, "normal", { lucky: isLucky(character.race) });
 }
 
 /**
@@ -144,6 +174,8 @@ export function createCombatState(
       initiative: p.initiative,
       hasActed: false,
       characterId: p.character.id,
+      speed: p.character.speed,
+      resources: createTurnResources(p.character.speed),
     })),
     ...enemies.map(e => ({
       id: e.enemy.id,
@@ -151,6 +183,8 @@ export function createCombatState(
       type: "enemy" as const,
       initiative: e.initiative,
       hasActed: false,
+      speed: e.enemy.speed,
+      resources: createTurnResources(e.enemy.speed),
     })),
   ];
 
@@ -161,10 +195,233 @@ export function createCombatState(
     initiativeOrder: sortByInitiative(combatants),
     enemies: enemies.map(e => e.enemy),
     environment,
+    map: createBattleMap(players.map(p => p.character.id), enemies.map(e => e.enemy.id)),
     log: [],
   };
 }
 
+// ============= ACTION ECONOMY =============
+
+/**
+ * Fresh per-turn budget: one action, one bonus action, one reaction, full speed
+ */
+export function createTurnResources(speed: number): TurnResources {
+  return {
+    actions: 1,
+    bonusAction: true,
+    reaction: true,
+    movement: speed,
+    surged: false,
+  };
+}
+
+/**
+ * Work out what a spell costs to cast from its casting time
+ * ("1 action", "1 bonus action", "1 reaction")
+ */
+export function getSpellActionCost(castingTime: string): ActionCost {
+  const time = castingTime.toLowerCase();
+  if (time.includes("bonus action")) return "bonus_action";
+  if (time.includes("reaction")) return "reaction";
+  return "action";
+}
+
+/**
+ * Spend part of a combatant's turn budget.
+ * Returns the updated combat state, or an error if the budget is used up.
+ */
+export function spendAction(
+  combat: CombatState,
+  combatantId: string,
+  cost: ActionCost
+): { combat: CombatState; error?: string } {
+  const combatant = combat.initiativeOrder.find(
+    c => c.id === combatantId || c.characterId === combatantId
+  );
+  if (!combatant || cost === "free") return { combat };
+
+  const resources = { ...(combatant.resources ?? createTurnResources(combatant.speed ?? 30)) };
+
+  if (cost === "action") {
+    if (resources.actions <= 0) {
+      return { combat, error: `${combatant.name} has already used their action this turn` };
+    }
+    resources.actions -= 1;
+  } else if (cost === "bonus_action") {
+    if (!resources.bonusAction) {
+      return { combat, error: `${combatant.name} has already used their bonus action this turn` };
+    }
+    resources.bonusAction = false;
+  } else if (cost === "reaction") {
+    if (!resources.reaction) {
+      return { combat, error: `${combatant.name} has already used their reaction this round` };
+    }
+    resources.reaction = false;
+  }
+
+  return {
+    combat: {
+      ...combat,
+      initiativeOrder: combat.initiativeOrder.map(c =>
+        c === combatant ? { ...c, resources } : c
+      ),
+    },
+  };
+}
+
+/**
+ * Grant a combatant an extra action this turn (Action Surge).
+ * Returns an error if they have already surged this turn.
+ */
+export function grantAction(
+  combat: CombatState,
+  combatantId: string
+): { combat: CombatState; error?: string } {
+  const combatant = combat.initiativeOrder.find(
+    c => c.id === combatantId || c.characterId === combatantId
+  );
+  if (!combatant) return { combat, error: "Combatant not found" };
+
+  const resources = combatant.resources ?? createTurnResources(combatant.speed ?? 30);
+  if (resources.surged) {
+    return { combat, error: `${combatant.name} has already used Action Surge this turn` };
+  }
+
+  return {
+    combat: {
+      ...combat,
+      initiativeOrder: combat.initiativeOrder.map(c =>
+        c === combatant ? { ...c, resources: { ...resources, actions: resources.actions + 1, surged: true } } : c
+      ),
+    },
+  };
+}
+
+/**
+ * Describe a turn budget for display
+ */
+export function formatTurnResources(resources: TurnResources): string {
+  const parts = [
+    `${resources.actions} action${resources.actions === 1 ? "" : "s"}`,
+    resources.bonusAction ? "bonus action" : "no bonus action",
+    resources.reaction ? "reaction" : "no reaction",
+    `${resources.movement} ft movement`,
+  ];
+  return parts.join(", ");
+}
+
+// ============= POSITIONING =============
+
+// How far an attack reaches: melee reach in feet (null if it can't be used
+// in melee, like a bow) and the range it can be shot or thrown to
+export interface AttackReach {
+  reach: number | null;
+  range?: { normal: number; long: number };
+}
+
+export function getWeaponReach(weapon: Weapon | undefined): AttackReach {
+  if (!weapon) return { reach: SQUARE_FEET }; // unarmed
+  if (weapon.properties.includes("ammunition")) return { reach: null, range: weapon.range };
+  return { reach: weapon.properties.includes("reach") ? 2 * SQUARE_FEET : SQUARE_FEET, range: weapon.range };
+}
+
+export function getEnemyAttackReach(attack: EnemyAttack): AttackReach {
+  return attack.range ? { reach: null, range: attack.range } : { reach: SQUARE_FEET };
+}
+
+/**
+ * Check an attack against the battle map. Melee needs the target within
+ * reach, and gets advantage when flanking. Ranged attacks have disadvantage
+ * past normal range or with a hostile creature next to the attacker.
+ * Returns an error if the target is out of reach and range.
+ */
+export function checkAttackPosition(
+  combat: CombatState,
+  attackerId: string,
+  targetId: string,
+  { reach, range }: AttackReach,
+  allyIds: string[],
+  hostileIds: string[]
+): { error: string } | { advantage: AdvantageType; ranged: boolean; notes: string[] } {
+  const distance = getDistanceBetween(combat.map, attackerId, targetId);
+  if (distance === null) return { advantage: "normal", ranged: false, notes: [] };
+
+  if (reach !== null && distance <= reach) {
+    const flanking = isFlanking(combat.map, attackerId, targetId, allyIds);
+    return { advantage: flanking ? "advantage" : "normal", ranged: false, notes: flanking ? ["flanking"] : [] };
+  }
+
+  if (range && distance <= range.long) {
+    const notes: string[] = [];
+    if (distance > range.normal) notes.push("long range");
+    const attacker = combat.map.positions[attackerId];
+    const threatened = hostileIds.some((id) => {
+      const hostile = combat.map.positions[id];
+      return hostile && getDistance(attacker, hostile) <= SQUARE_FEET;
+    });
+    if (threatened) notes.push("enemy adjacent");
+    return { advantage: notes.length > 0 ? "disadvantage" : "normal", ranged: true, notes };
+  }
+
+  const name = combat.initiativeOrder.find(c => c.id === targetId)?.name ?? "The target";
+  const limit = range ? `range ${range.long} ft` : `reach ${reach} ft`;
+  return { error: `${name} is ${distance} ft away, out of ${limit}` };
+}
+
+/**
+ * Move a combatant to a square, spending movement they've already been
+ * checked to have
+ */
+export function placeCombatant(combat: CombatState, combatantId: string, position: Position, cost: number): CombatState {
+  return {
+    ...combat,
+    map: { ...combat.map, positions: { ...combat.map.positions, [combatantId]: position } },
+    initiativeOrder: combat.initiativeOrder.map(c => {
+      if (c.id !== combatantId) return c;
+      const resources = c.resources ?? createTurnResources(c.speed ?? 30);
+      return { ...c, resources: { ...resources, movement: Math.max(0, resources.movement - cost) } };
+    }),
+  };
+}
+
+/**
+ * One-character map markers: the party by initial (uppercase), enemies by
+ * number in the order they joined the fight
+ */
+export function getMapLabels(combat: CombatState): Record<string, string> {
+  const labels: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const c of combat.initiativeOrder.filter(c => c.type !== "enemy")) {
+    const initial = c.name.charAt(0).toUpperCase();
+    const label = /[A-Z]/.test(initial) && !used.has(initial)
+      ? initial
+      : "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("").find(l => !used.has(l)) ?? "?";
+    labels[c.id] = label;
+    used.add(label);
+  }
+
+  combat.enemies.forEach((e, i) => {
+    labels[e.id] = i < 9 ? String(i + 1) : String.fromCharCode(97 + i - 9);
+  });
+
+  return labels;
+}
+
+/**
+ * Where everyone stands, for the DM - "Mira C4, Goblin 1 J5 (25 ft from Mira)"
+ */
+export function describePositions(combat: CombatState, fromId?: string): string {
+  return combat.initiativeOrder
+    .map(c => {
+      const position = combat.map.positions[c.id];
+      if (!position) return `${c.name} off the map`;
+      const distance = fromId && fromId !== c.id ? getDistanceBetween(combat.map, fromId, c.id) : null;
+      return `${c.name} ${formatSquare(position)}${distance !== null ? ` (${distance} ft away)` : ""}`;
+    })
+    .join(", ");
+}
+
 // ============= ATTACKS =============
 
 /**
@@ -186,26 +443,27 @@ export function makeAttack(
   weaponId: string,
   targetAC: number,
   advantage: AdvantageType = "normal",
-  targetConditions: Condition[] = []
+  targetConditions: Condition[] = [],
+  withinFiveFeet: boolean = true
 ): AttackResult {
   // Apply attacker's condition modifiers
   const attackerMod = getConditionAttackModifier(attacker.conditions);
   // Apply target's condition modifiers (advantage for attacks against blinded, paralyzed, etc.)
-  const targetMod = getConditionDefenseModifier(targetConditions);
+  const targetMod = getConditionDefenseModifier(targetConditions, withinFiveFeet);
 
   // Combine all advantage sources
   let finalAdvantage = combineAdvantage(advantage, attackerMod);
   finalAdvantage = combineAdvantage(finalAdvantage, targetMod);
 
   const attackBonus = getAttackBonus(attacker, weaponId);
-  const attackRoll = roll(`1d20+${attackBonus}`, finalAdvantage);
+  const attackRoll = roll(`1d20+${attackBonus}`, finalAdvantage, { lucky: isLucky(attacker.race) });
 
   const hit = meetsAC(attackRoll, targetAC);
   const critical = attackRoll.isCritical;
   const fumble = attackRoll.isFumble;
 
   // Auto-crit against paralyzed/unconscious targets within 5 feet
-  const autoCrit = hit && (targetConditions.includes("paralyzed") || targetConditions.includes("unconscious"));
+  const autoCrit = hit && withinFiveFeet && (targetConditions.includes("paralyzed") || targetConditions.includes("unconscious"));
 
   const result: AttackResult = {
     hit,
@@ -238,12 +496,13 @@ export function makeEnemyAttack(
   attack: EnemyAttack,
   targetAC: number,
   advantage: AdvantageType = "normal",
-  targetConditions: Condition[] = []
+  targetConditions: Condition[] = [],
+  withinFiveFeet: boolean = true
 ): AttackResult {
   // Apply enemy's condition modifiers
   const attackerMod = getConditionAttackModifier(enemy.conditions);
   // Apply target's condition modifiers
-  const targetMod = getConditionDefenseModifier(targetConditions);
+  const targetMod = getConditionDefenseModifier(targetConditions, withinFiveFeet);
 
   // Combine all advantage sources
   let finalAdvantage = combineAdvantage(advantage, attackerMod);
@@ -256,7 +515,7 @@ export function makeEnemyAttack(
   const fumble = attackRoll.isFumble;
 
   // Auto-crit against paralyzed/unconscious targets within 5 feet
-  const autoCrit = hit && (targetConditions.includes("paralyzed") || targetConditions.includes("unconscious"));
+  const autoCrit = hit && withinFiveFeet && (targetConditions.includes("paralyzed") || targetConditions.includes("unconscious"));
 
   const result: AttackResult = {
     hit,
@@ -277,6 +536,18 @@ export function makeEnemyAttack(
 
 // ============= DAMAGE =============
 
+/**
+ * Get the damage types a character resists
+ */
+export function getCharacterResistances(character: Character): DamageType[] | "all" {
+  // Petrified: resistance to all damage
+  if (character.conditions.includes("petrified")) {
+    return "all";
+  }
+  // Racial resistances (Dwarven Resilience)
+  return getRaceResistances(character.race);
+}
+
 /**
  * Apply damage to a character
  */
@@ -284,24 +555,108 @@ export function applyDamage(
   character: Character,
   amount: number,
   damageType: DamageType
-): { newHp: number; unconscious: boolean; dead: boolean } {
-  // TODO: Handle resistances, vulnerabilities, immunities
+): { newHp: number; damageTaken: number; unconscious: boolean; dead: boolean } {
+  // Handle resistances
+  const resistances = getCharacterResistances(character);
+  if (resistances === "all" || resistances.includes(damageType)) {
+    amount = Math.floor(amount / 2);
+  }
 
-  let newHp = character.currentHp - amount;
+  const newHp = character.currentHp - amount;
 
   // Check for massive damage (instant death)
   const massiveDamage = newHp <= -character.maxHp;
 
   if (massiveDamage) {
-    return { newHp: 0, unconscious: true, dead: true };
+    return { newHp: 0, damageTaken: amount, unconscious: true, dead: true };
   }
 
   // At 0 or below, go unconscious
   if (newHp <= 0) {
-    return { newHp: 0, unconscious: true, dead: false };
+    return { newHp: 0, damageTaken: amount, unconscious: true, dead: false };
   }
 
-  return { newHp, unconscious: false, dead: false };
+  return { newHp, damageTaken: amount, unconscious: false, dead: false };
+}
+
+/**
+ * Resolve damage against a character, including death save failures,
+ * falling unconscious and concentration checks.
+ * Returns the character updates to persist and a status suffix for the log.
+ */
+export function resolveCharacterDamage(
+  character: Character,
+  amount: number,
+  damageType: DamageType
+): {
+  result: ReturnType<typeof applyDamage>;
+  updates: Partial<Character>;
+  statusText: string;
+} {
+  // Check if character was already unconscious (0 HP)
+  const wasUnconscious = character.currentHp <= 0;
+  // Unconscious with hit points left means asleep (Sleep), and getting hurt wakes them
+  const asleep = !wasUnconscious && character.conditions.includes("unconscious");
+
+  const result = applyDamage(character, amount, damageType);
+
+  const updates: Partial<Character> = {
+    currentHp: result.newHp,
+  };
+
+  let statusText = "";
+
+  // If already unconscious and takes damage, auto-fail death save
+  if (wasUnconscious && result.damageTaken > 0) {
+    const newFailures = Math.min(3, character.deathSaves.failures + 1);
+    updates.deathSaves = {
+      successes: character.deathSaves.successes,
+      failures: newFailures,
+    };
+
+    if (newFailures >= 3) {
+      statusText = ` Taking damage while unconscious causes a death save failure! ${character.name} has DIED!`;
+    } else {
+      statusText = ` Taking damage while unconscious causes a death save failure! (${character.deathSaves.successes}/3 successes, ${newFailures}/3 failures)`;
+    }
+  } else if (result.dead) {
+    statusText = ` ${character.name} has died!`;
+    // End concentration on death
+    if (character.concentrating) {
+      updates.concentrating = null;
+    }
+  } else if (result.unconscious) {
+    statusText = ` ${character.name} falls unconscious!`;
+    // Reset death saves when first falling unconscious
+    updates.deathSaves = { successes: 0, failures: 0 };
+    // Add unconscious and prone conditions (per D&D 5e rules)
+    const newConditions: Condition[] = character.conditions.filter(c => c !== "unconscious" && c !== "prone");
+    newConditions.push("unconscious", "prone");
+    updates.conditions = newConditions;
+    // End concentration when falling unconscious
+    if (character.concentrating) {
+      updates.concentrating = null;
+      statusText += ` Loses concentration!`;
+    }
+  } else if (asleep && result.damageTaken > 0) {
+    updates.conditions = character.conditions.filter(c => c !== "unconscious");
+    statusText = ` ${character.name} wakes up!`;
+  } else if (character.concentrating && !wasUnconscious && result.damageTaken > 0) {
+    // Concentration save: DC = max(10, damage / 2)
+    const concentrationDC = Math.max(10, Math.floor(result.damageTaken / 2));
+    const concSave = savingThrow(character, "constitution", concentrationDC);
+    const modStr = concSave.modifier >= 0 ? `+${concSave.modifier}` : `${concSave.modifier}`;
+
+    if (concSave.success) {
+      statusText += ` CONCENTRATION SAVE: [${concSave.roll.natural}]${modStr} = ${concSave.total} vs DC ${concentrationDC} - Maintained!`;
+    } else {
+      const lostSpell = ALL_SPELLS[character.concentrating];
+      updates.concentrating = null;
+      statusText += ` CONCENTRATION SAVE: [${concSave.roll.natural}]${modStr} = ${concSave.total} vs DC ${concentrationDC} - FAILED! Loses ${lostSpell?.name || "spell"}!`;
+    }
+  }
+
+  return { result, updates, statusText };
 }
 
 /**
@@ -350,7 +705,7 @@ export function healCharacter(
  * Roll a death saving throw
  */
 export function rollDeathSave(character: Character): DeathSaveResult {
-  const rollResult = roll("1d20");
+  const rollResult = roll("1d20", "normal", { lucky: isLucky(character.race) });
 
   let successes = character.deathSaves.successes;
   let failures = character.deathSaves.failures;
@@ -397,6 +752,60 @@ export function rollDeathSave(character: Character): DeathSaveResult {
   };
 }
 
+/**
+ * Roll a death save for a dying character. Returns the character updates to
+ * persist and the line for the log.
+ */
+export function resolveDeathSave(character: Character): {
+  result: DeathSaveResult;
+  updates: Partial<Character>;
+  message: string;
+} {
+  const result = rollDeathSave(character);
+
+  const updates: Partial<Character> = {
+    deathSaves: {
+      successes: result.totalSuccesses,
+      failures: result.totalFailures,
+    },
+  };
+
+  // Natural 20: regain 1 HP and wake up
+  if (result.critical) {
+    updates.currentHp = 1;
+    updates.deathSaves = { successes: 0, failures: 0 }; // Reset on recovery
+    // Remove unconscious condition (keep prone - they're still on the ground)
+    updates.conditions = character.conditions.filter(c => c !== "unconscious");
+  }
+
+  let message = `${character.name} DEATH SAVE: [${result.roll.natural}]`;
+
+  if (result.critical) {
+    message += ` - NATURAL 20! ${character.name} regains 1 HP and wakes up!`;
+  } else if (result.fumble) {
+    message += ` - NATURAL 1! Two failures! (${result.totalSuccesses} successes, ${result.totalFailures} failures)`;
+  } else if (result.success) {
+    message += ` - Success! (${result.totalSuccesses}/3 successes, ${result.totalFailures}/3 failures)`;
+  } else {
+    message += ` - Failure! (${result.totalSuccesses}/3 successes, ${result.totalFailures}/3 failures)`;
+  }
+
+  if (result.stabilized && !result.critical) {
+    message += ` ${character.name} is STABILIZED!`;
+  } else if (result.dead) {
+    message += ` ${character.name} has DIED!`;
+  }
+
+  return { result, updates, message };
+}
+
+/**
+ * Whether a character at 0 HP still rolls death saves (not yet stable or dead)
+ */
+export function isDying(character: Character): boolean {
+  return character.currentHp <= 0 && character.deathSaves.successes < 3 && character.deathSaves.failures < 3;
+}
+
 // ============= CONDITIONS =============
 
 /**
@@ -425,7 +834,7 @@ export function getConditionAttackModifier(conditions: Condition[]): AdvantageTy
 /**
  * Check if attacks against this target have advantage/disadvantage
  */
-export function getConditionDefenseModifier(conditions: Condition[]): AdvantageType {
+export function getConditionDefenseModifier(conditions: Condition[], withinFiveFeet: boolean = true): AdvantageType {
   // Attacks have advantage against these conditions
   if (
     conditions.includes("blinded") ||
@@ -443,6 +852,11 @@ export function getConditionDefenseModifier(conditions: Condition[]): AdvantageT
     return "disadvantage";
   }
 
+  // Prone targets are easy to hit up close and hard to hit from further off
+  if (conditions.includes("prone")) {
+    return withinFiveFeet ? "advantage" : "disadvantage";
+  }
+
   return "normal";
 }
 
@@ -455,6 +869,41 @@ export function canTakeActions(conditions: Condition[]): boolean {
   );
 }
 
+/**
+ * Whether a creature shrugs off a condition (skeletons can't be poisoned)
+ */
+export function isImmuneToCondition(creature: Character | Enemy, condition: Condition): boolean {
+  return "conditionImmunities" in creature && !!creature.conditionImmunities?.includes(condition);
+}
+
+// ============= ENEMY TURNS =============
+
+/**
+ * Pick a target for an enemy: the nearest conscious character on the map
+ * (a random one among the nearest)
+ */
+export function chooseEnemyTarget(enemy: Enemy, characters: Character[], map?: BattleMap): Character | null {
+  const conscious = characters.filter(c => c.currentHp > 0);
+  if (conscious.length === 0) return null;
+
+  const distanceTo = (c: Character) => (map && getDistanceBetween(map, enemy.id, c.id)) ?? 0;
+  const nearest = Math.min(...conscious.map(distanceTo));
+  const candidates = conscious.filter(c => distanceTo(c) === nearest);
+  return candidates[rollDie(candidates.length) - 1];
+}
+
+/**
+ * Pick the attack an enemy uses against a target `distance` feet away:
+ * melee if they're in reach or can get there with `movement`, otherwise
+ * something ranged that can reach them, otherwise melee (the enemy closes in first)
+ */
+export function chooseEnemyAttack(enemy: Enemy, distance: number = SQUARE_FEET, movement: number = 0): EnemyAttack | null {
+  if (enemy.attacks.length === 0) return null;
+  const melee = enemy.attacks.find(a => !a.range);
+  if (melee && distance <= SQUARE_FEET + movement) return melee;
+  return enemy.attacks.find(a => a.range && distance <= a.range.long) || melee || enemy.attacks[0];
+}
+
 // ============= COMBAT UTILITIES =============
 
 /**
@@ -491,9 +940,25 @@ export function advanceTurn(combat: CombatState): CombatState {
     }));
   }
 
+  // The combatant whose turn starts gets a fresh budget
+  newCombat.initiativeOrder = newCombat.initiativeOrder.map((c, i) =>
+    i === newCombat.turnIndex ? { ...c, resources: createTurnResources(c.speed ?? 30) } : c
+  );
+
   return newCombat;
 }
 
+/**
+ * The round in which an effect lasting `rounds` rounds ends, at the end of
+ * a combatant's turn. If their turn has come (or is happening) this round,
+ * the count starts from their next one. Returns null if they aren't in the fight.
+ */
+export function getEndOfTurnRound(combat: CombatState, combatantId: string, rounds: number): number | null {
+  const index = combat.initiativeOrder.findIndex((c) => c.id === combatantId);
+  if (index === -1) return null;
+  return index > combat.turnIndex ? combat.round + rounds - 1 : combat.round + rounds;
+}
+
 /**
  * Remove a combatant from initiative order (when they die or flee)
  */
@@ -503,6 +968,9 @@ export function removeCombatant(combat: CombatState, combatantId: string): Comba
 
   const newCombat = { ...combat };
   newCombat.initiativeOrder = combat.initiativeOrder.filter(c => c.id !== combatantId);
+  const positions = { ...combat.map.positions };
+  delete positions[combatantId];
+  newCombat.map = { ...combat.map, positions };
 
   // Adjust turn index if necessary
   if (index < combat.turnIndex) {
@@ -517,8 +985,16 @@ export function removeCombatant(combat: CombatState, combatantId: string): Comba
 /**
  * Check if combat should end
  */
-export function shouldCombatEnd(combat: CombatState): { end: boolean; reason: "victory" | "defeat" | "flee" | null } {
-  const players = combat.initiativeOrder.filter(c => c.type === "player");
+export function shouldCombatEnd(
+  combat: CombatState,
+  characters: Character[] = []
+): { end: boolean; reason: "victory" | "defeat" | "flee" | null } {
+  const players = combat.initiativeOrder.filter(c => {
+    if (c.type !== "player") return false;
+    // Downed characters stay in initiative but can't keep the fight going
+    const character = characters.find(ch => ch.id === (c.characterId || c.id));
+    return !character || character.currentHp > 0;
+  });
   const enemies = combat.initiativeOrder.filter(c => c.type === "enemy");
 
   if (enemies.length === 0) {
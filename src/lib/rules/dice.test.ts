@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { DiceExpressionError, parseDiceExpression, randomAt, roll, rollDamage, setDiceContextProvider } from "./dice";
+
+// Make the next dice come up as the given faces: [value, sides] pairs
+function riggedDice(...faces: [number, number][]) {
+  const queue = [...faces];
+  setDiceContextProvider(() => ({
+    random: () => {
+      const next = queue.shift();
+      if (!next) throw new Error("Ran out of rigged dice");
+      const [value, sides] = next;
+      return (value - 0.5) / sides;
+    },
+  }));
+}
+
+afterEach(() => {
+  setDiceContextProvider(() => null);
+});
+
+describe("parseDiceExpression", () => {
+  it("splits an expression into signed terms", () => {
+    expect(parseDiceExpression("2d6 + 1d4 - 3")).toMatchObject([
+      { type: "dice", notation: "2d6", sign: 1, count: 2, sides: 6 },
+      { type: "dice", notation: "+1d4", sign: 1, count: 1, sides: 4 },
+      { type: "constant", notation: "-3", sign: -1, value: 3 },
+    ]);
+  });
+
+  it("reads shorthand dice and combined signs", () => {
+    expect(parseDiceExpression("d20")).toMatchObject([{ count: 1, sides: 20 }]);
+    expect(parseDiceExpression("d%")).toMatchObject([{ count: 1, sides: 100 }]);
+    expect(parseDiceExpression("1d8+-1")).toMatchObject([{ sides: 8 }, { sign: -1, value: 1 }]);
+  });
+
+  it("reads modifiers in any order", () => {
+    expect(parseDiceExpression("4d6kh3")).toMatchObject([{ select: { mode: "kh", count: 3 } }]);
+    expect(parseDiceExpression("2d20k")).toMatchObject([{ select: { mode: "kh", count: 1 } }]);
+    expect(parseDiceExpression("1d20ro1")).toMatchObject([
+      { reroll: { point: { op: "=", value: 1 }, once: true } },
+    ]);
+    expect(parseDiceExpression("2d6min2r<1!")).toMatchObject([
+      {
+        min: 2,
+        reroll: { point: { op: "<", value: 1 }, once: false },
+        explode: { op: "=", value: 6 },
+      },
+    ]);
+  });
+
+  it.each([
+    ["", "it's empty"],
+    ["2d6 3", "expected + or -"],
+    ["0d6", "dice count must be"],
+    ["1d0", "dice sides must be"],
+    ["2d6kh3", "can't keep 3 of 2 dice"],
+    ["1d6r<6", "reroll would never stop"],
+    ["1d1!", "explode forever"],
+    ["1d6+", "it ends with a sign"],
+    ["fireball", "unexpected"],
+  ])("rejects %j", (notation, reason) => {
+    expect(() => parseDiceExpression(notation)).toThrow(DiceExpressionError);
+    expect(() => parseDiceExpression(notation)).toThrow(reason);
+  });
+});
+
+describe("roll", () => {
+  it("adds dice and modifiers", () => {
+    riggedDice([4, 6], [5, 6]);
+    expect(roll("2d6+3")).toMatchObject({ rolls: [4, 5], natural: 9, modifier: 3, total: 12 });
+  });
+
+  it("keeps the highest dice", () => {
+    riggedDice([1, 6], [6, 6], [3, 6], [4, 6]);
+    expect(roll("4d6kh3")).toMatchObject({ rolls: [6, 3, 4], total: 13 });
+  });
+
+  it("rerolls until the dice stop matching", () => {
+    riggedDice([1, 6], [2, 6], [5, 6]);
+    expect(roll("1d6r<2").rolls).toEqual([5]);
+  });
+
+  it("explodes on the highest face", () => {
+    riggedDice([6, 6], [6, 6], [2, 6]);
+    expect(roll("1d6!").total).toBe(14);
+  });
+
+  it("clamps each die", () => {
+    riggedDice([3, 20]);
+    expect(roll("1d20min10").total).toBe(10);
+  });
+
+  it("flags natural 20s and 1s on a lone d20", () => {
+    riggedDice([20, 20]);
+    expect(roll("1d20+5")).toMatchObject({ isCritical: true, isFumble: false, total: 25 });
+    riggedDice([1, 20]);
+    expect(roll("1d20+5")).toMatchObject({ isCritical: false, isFumble: true });
+    riggedDice([20, 20], [20, 20]);
+    expect(roll("2d20").isCritical).toBe(false);
+  });
+
+  it("takes the better or worse of two d20s", () => {
+    riggedDice([8, 20], [15, 20]);
+    expect(roll("1d20", "advantage")).toMatchObject({ total: 15, discardedRoll: 8, advantage: "advantage" });
+    riggedDice([8, 20], [15, 20]);
+    expect(roll("1d20", "disadvantage")).toMatchObject({ total: 8, discardedRoll: 15 });
+  });
+
+  it("rerolls a lucky natural 1 once", () => {
+    riggedDice([1, 20], [1, 20]);
+    expect(roll("1d20", "normal", { lucky: true })).toMatchObject({ rolls: [1], isFumble: true });
+    riggedDice([1, 20], [12, 20]);
+    expect(roll("1d20", "normal", { lucky: true }).total).toBe(12);
+  });
+
+  it("doubles the dice on a critical hit, not the modifier", () => {
+    riggedDice([3, 8], [5, 8]);
+    expect(rollDamage("1d8+2", true)).toMatchObject({ rolls: [3, 5], total: 10 });
+  });
+
+  it("reports each top-level roll to the context once", () => {
+    const logged: string[] = [];
+    setDiceContextProvider(() => ({ random: () => 0.5, onRoll: (notation) => logged.push(notation) }));
+    roll("4d6kh3");
+    roll("1d20", "advantage");
+    expect(logged).toEqual(["4d6kh3", "1d20"]);
+  });
+});
+
+describe("randomAt", () => {
+  it("gives the same draw for the same seed and position", () => {
+    expect(randomAt(1234, 7)).toBe(randomAt(1234, 7));
+    expect(randomAt(1234, 7)).not.toBe(randomAt(1234, 8));
+    expect(randomAt(1234, 7)).not.toBe(randomAt(4321, 7));
+  });
+
+  it("stays in [0, 1)", () => {
+    for (let i = 0; i < 1000; i++) {
+      const value = randomAt(99, i);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
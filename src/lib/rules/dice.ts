@@ -9,104 +9,393 @@ export interface RollResult {
   isFumble: boolean;    // Natural 1 on d20
   advantage?: "advantage" | "disadvantage" | "normal";
   discardedRoll?: number;  // For advantage/disadvantage
+  terms?: RollTerm[];      // Per-term breakdown of the expression
+  id?: string;             // Set when the roll is logged (see rolls.ts)
+  seq?: number;            // Position in the room's roll log
 }
 
 export type AdvantageType = "advantage" | "disadvantage" | "normal";
 
+export interface RollOptions {
+  lucky?: boolean; // Halfling Lucky: a natural 1 on the d20 is rerolled once
+}
+
+export interface DieRoll {
+  value: number;
+  dropped?: boolean;   // Not counted - removed by keep/drop
+  rerolled?: boolean;  // Not counted - replaced by the die after it
+  exploded?: boolean;  // Extra die from an exploding roll
+}
+
+export interface RollTerm {
+  notation: string;
+  sign: 1 | -1;
+  dice?: DieRoll[];    // Absent for flat numbers
+  total: number;       // Signed contribution to the roll
+}
+
+export class DiceExpressionError extends Error {
+  constructor(notation: string, reason: string) {
+    super(`Invalid dice expression "${notation}": ${reason}`);
+    this.name = "DiceExpressionError";
+  }
+}
+
+// ============= RANDOMNESS =============
+
+// Uniform number in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+export interface DiceContext {
+  random: RandomSource;
+  // Called once per top-level roll (not for the dice inside it)
+  onRoll?: (notation: string, result: RollResult) => void;
+}
+
+let getDiceContext: () => DiceContext | null = () => null;
+let rollDepth = 0;
+
 /**
- * Roll dice with standard notation (e.g., "2d6+3", "1d20-1")
+ * Install where rolls get their randomness from. The server uses this to
+ * give each room its own seeded stream; without one we fall back to Math.random.
  */
-export function roll(
-  notation: string,
-  advantageType: AdvantageType = "normal"
-): RollResult {
-  const match = notation.match(/^(\d+)d(\d+)([+-]\d+)?$/i);
-  if (!match) {
-    return {
-      rolls: [0],
-      total: 0,
-      modifier: 0,
-      natural: 0,
-      isCritical: false,
-      isFumble: false,
-    };
+export function setDiceContextProvider(provider: () => DiceContext | null): void {
+  getDiceContext = provider;
+}
+
+/**
+ * Value number `index` (0-based) of the mulberry32 stream for `seed`.
+ * Counter-based, so any draw can be recomputed on its own when auditing.
+ */
+export function randomAt(seed: number, index: number): number {
+  const a = (seed + Math.imul(index + 1, 0x6d2b79f5)) | 0;
+  let t = Math.imul(a ^ (a >>> 15), 1 | a);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function drawDie(sides: number): number {
+  const random = getDiceContext()?.random ?? Math.random;
+  return Math.floor(random() * sides) + 1;
+}
+
+// Run a roll, reporting it to the context only if it isn't part of a bigger roll
+function tracked(notation: string, fn: () => RollResult): RollResult {
+  rollDepth++;
+  let result: RollResult;
+  try {
+    result = fn();
+  } finally {
+    rollDepth--;
+  }
+  if (rollDepth === 0) getDiceContext()?.onRoll?.(notation, result);
+  return result;
+}
+
+// ============= EXPRESSIONS =============
+
+// Compare points: "3" means exactly 3, "<2" means 2 or lower, ">19" means 19 or higher
+interface ComparePoint {
+  op: "=" | "<" | ">";
+  value: number;
+}
+
+interface DiceTermSpec {
+  type: "dice";
+  notation: string;
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  select?: { mode: "kh" | "kl" | "dh" | "dl"; count: number };
+  reroll?: { point: ComparePoint; once: boolean };
+  explode?: ComparePoint;
+  min?: number;
+  max?: number;
+}
+
+interface ConstantTermSpec {
+  type: "constant";
+  notation: string;
+  sign: 1 | -1;
+  value: number;
+}
+
+type TermSpec = DiceTermSpec | ConstantTermSpec;
+
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+const MAX_EXPLOSIONS = 100;
+
+function matches(point: ComparePoint, value: number): boolean {
+  if (point.op === "<") return value <= point.value;
+  if (point.op === ">") return value >= point.value;
+  return value === point.value;
+}
+
+function matchesEveryFace(point: ComparePoint, sides: number): boolean {
+  for (let face = 1; face <= sides; face++) {
+    if (!matches(point, face)) return false;
+  }
+  return true;
+}
+
+/**
+ * Parse a dice expression into terms. Supports:
+ *   2d6+1d4+3, d20, d%, 1d20+5-1, 1d8+-1 (signs combine), +2
+ *   4d6kh3 / 2d20kl1 / 4d6dl1 (keep or drop highest/lowest, "k" = "kh")
+ *   2d6r<2 (reroll 1s and 2s until they stop), 1d20ro1 (reroll 1s once)
+ *   1d6! / 1d6!>5 (exploding), 1d20min10 / 2d6max5 (clamp each die)
+ * Throws DiceExpressionError on anything it doesn't understand.
+ */
+export function parseDiceExpression(notation: string): TermSpec[] {
+  const text = notation.trim().toLowerCase();
+  if (!text) throw new DiceExpressionError(notation, "it's empty");
+
+  const terms: TermSpec[] = [];
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new DiceExpressionError(notation, reason);
+  };
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = text.slice(pos).match(pattern);
+    if (match) pos += match[0].length;
+    return match;
+  };
+
+  const comparePoint = (op: string | undefined, value: string): ComparePoint => ({
+    op: (op as ComparePoint["op"]) || "=",
+    value: parseInt(value),
+  });
+
+  while (pos < text.length) {
+    // Any run of signs in front of a term ("+-1" is -1). Spaces are fine between terms.
+    take(/^\s+/);
+    const termStart = pos;
+    let sign: 1 | -1 = 1;
+    const signs = take(/^[+-]+/);
+    if (signs) {
+      for (const c of signs[0]) if (c === "-") sign = sign === 1 ? -1 : 1;
+      take(/^\s+/);
+    } else if (terms.length > 0) {
+      fail(`expected + or - before "${text.slice(pos)}"`);
+    }
+
+    const dice = take(/^(\d*)d(\d+|%)/);
+    if (dice) {
+      const count = dice[1] ? parseInt(dice[1]) : 1;
+      const sides = dice[2] === "%" ? 100 : parseInt(dice[2]);
+      if (count < 1 || count > MAX_DICE) fail(`dice count must be 1-${MAX_DICE}`);
+      if (sides < 1 || sides > MAX_SIDES) fail(`dice sides must be 1-${MAX_SIDES}`);
+
+      const term: DiceTermSpec = { type: "dice", notation: "", sign, count, sides };
+
+      // Modifiers, in any order
+      for (;;) {
+        const select = take(/^(kh|kl|dh|dl|k)(\d+)?/);
+        if (select) {
+          if (term.select) fail("only one keep/drop per dice term");
+          const mode = select[1] === "k" ? "kh" : (select[1] as "kh" | "kl" | "dh" | "dl");
+          const n = select[2] ? parseInt(select[2]) : 1;
+          if (n > count) fail(`can't ${mode.startsWith("k") ? "keep" : "drop"} ${n} of ${count} dice`);
+          term.select = { mode, count: n };
+          continue;
+        }
+
+        const reroll = take(/^(ro|r)([<>=])?(\d+)/);
+        if (reroll) {
+          const point = comparePoint(reroll[2], reroll[3]);
+          if (reroll[1] === "r" && matchesEveryFace(point, sides)) fail("reroll would never stop");
+          term.reroll = { point, once: reroll[1] === "ro" };
+          continue;
+        }
+
+        const explode = take(/^!([<>=])?(\d+)?/);
+        if (explode) {
+          const point = explode[2] ? comparePoint(explode[1], explode[2]) : { op: "=" as const, value: sides };
+          if (matchesEveryFace(point, sides)) fail("dice would explode forever");
+          term.explode = point;
+          continue;
+        }
+
+        const clamp = take(/^(min|max)(\d+)/);
+        if (clamp) {
+          term[clamp[1] as "min" | "max"] = parseInt(clamp[2]);
+          continue;
+        }
+
+        break;
+      }
+
+      term.notation = text.slice(termStart, pos).replace(/\s+/g, "");
+      terms.push(term);
+      continue;
+    }
+
+    const constant = take(/^\d+/);
+    if (constant) {
+      terms.push({
+        type: "constant",
+        notation: text.slice(termStart, pos).replace(/\s+/g, ""),
+        sign,
+        value: parseInt(constant[0]),
+      });
+      continue;
+    }
+
+    fail(pos < text.length ? `unexpected "${text.slice(pos)}"` : "it ends with a sign");
   }
 
-  const [, countStr, sidesStr, modStr] = match;
-  const count = parseInt(countStr);
-  const sides = parseInt(sidesStr);
-  const modifier = modStr ? parseInt(modStr) : 0;
+  return terms;
+}
+
+// Roll one dice term. countMultiplier doubles the dice for critical hits.
+function rollDiceTerm(term: DiceTermSpec, countMultiplier: number): DieRoll[] {
+  const dice: DieRoll[] = [];
+
+  for (let i = 0; i < term.count * countMultiplier; i++) {
+    let value = drawDie(term.sides);
+
+    if (term.reroll) {
+      while (matches(term.reroll.point, value)) {
+        dice.push({ value, rerolled: true });
+        value = drawDie(term.sides);
+        if (term.reroll.once) break;
+      }
+    }
+    dice.push({ value });
 
-  // Handle advantage/disadvantage for d20 rolls
-  if (sides === 20 && count === 1 && advantageType !== "normal") {
-    return rollWithAdvantage(sides, modifier, advantageType);
+    if (term.explode) {
+      for (let n = 0; n < MAX_EXPLOSIONS && matches(term.explode, value); n++) {
+        value = drawDie(term.sides);
+        dice.push({ value, exploded: true });
+      }
+    }
   }
 
-  const rolls: number[] = [];
-  for (let i = 0; i < count; i++) {
-    rolls.push(Math.floor(Math.random() * sides) + 1);
+  const counted = dice.filter((d) => !d.rerolled);
+  for (const die of counted) {
+    if (term.min !== undefined) die.value = Math.max(die.value, term.min);
+    if (term.max !== undefined) die.value = Math.min(die.value, term.max);
   }
 
-  const natural = rolls.reduce((a, b) => a + b, 0);
-  const total = natural + modifier;
+  if (term.select) {
+    const { mode, count } = term.select;
+    const n = count * countMultiplier;
+    const byValue = [...counted].sort((a, b) => a.value - b.value);
+    const dropped =
+      mode === "kh" ? byValue.slice(0, Math.max(0, counted.length - n))
+      : mode === "kl" ? byValue.slice(n)
+      : mode === "dh" ? byValue.slice(-n)
+      : byValue.slice(0, n);
+    for (const die of dropped) die.dropped = true;
+  }
 
-  // Check for crit/fumble on d20
-  const isCritical = sides === 20 && count === 1 && rolls[0] === 20;
-  const isFumble = sides === 20 && count === 1 && rolls[0] === 1;
+  return dice;
+}
+
+// Roll parsed terms into a result
+function rollTerms(specs: TermSpec[], critical: boolean): RollResult {
+  const terms: RollTerm[] = specs.map((spec) => {
+    if (spec.type === "constant") {
+      return { notation: spec.notation, sign: spec.sign, total: spec.sign * spec.value };
+    }
+    const dice = rollDiceTerm(spec, critical ? 2 : 1);
+    const sum = dice.filter((d) => !d.rerolled && !d.dropped).reduce((a, d) => a + d.value, 0);
+    return { notation: spec.notation, sign: spec.sign, dice, total: spec.sign * sum };
+  });
+
+  const kept = terms.flatMap((t) =>
+    (t.dice ?? []).filter((d) => !d.rerolled && !d.dropped).map((d) => d.value * t.sign)
+  );
+  const natural = terms.filter((t) => t.dice).reduce((a, t) => a + t.total, 0);
+  const modifier = terms.filter((t) => !t.dice).reduce((a, t) => a + t.total, 0);
+
+  // A lone d20 can crit or fumble
+  const diceTerms = specs.filter((t): t is DiceTermSpec => t.type === "dice");
+  const single20 = diceTerms.length === 1 && diceTerms[0].sides === 20 && kept.length === 1;
 
   return {
-    rolls,
-    total,
+    rolls: kept,
+    total: natural + modifier,
     modifier,
     natural,
-    isCritical,
-    isFumble,
+    isCritical: single20 && kept[0] === 20,
+    isFumble: single20 && kept[0] === 1,
+    terms,
   };
 }
 
 /**
- * Roll with advantage or disadvantage
+ * Roll a dice expression (e.g., "2d6+3", "1d20-1", "4d6kh3", "1d8+1d6+4").
+ * With advantage/disadvantage, a single d20 is rolled twice keeping the
+ * higher/lower. A lucky roller rerolls 1s on that d20 (each of the two, with
+ * advantage). Throws DiceExpressionError for invalid expressions.
  */
-function rollWithAdvantage(
-  sides: number,
-  modifier: number,
-  advantageType: AdvantageType
+export function roll(
+  notation: string,
+  advantageType: AdvantageType = "normal",
+  options: RollOptions = {}
 ): RollResult {
-  const roll1 = Math.floor(Math.random() * sides) + 1;
-  const roll2 = Math.floor(Math.random() * sides) + 1;
+  const specs = parseDiceExpression(notation);
 
-  const useHigher = advantageType === "advantage";
-  const chosen = useHigher ? Math.max(roll1, roll2) : Math.min(roll1, roll2);
-  const discarded = useHigher ? Math.min(roll1, roll2) : Math.max(roll1, roll2);
+  const d20 = specs.find(
+    (t): t is DiceTermSpec => t.type === "dice" && t.sides === 20 && t.count === 1 && !t.select
+  );
+  if (d20 && options.lucky && !d20.reroll) {
+    d20.reroll = { point: { op: "=", value: 1 }, once: true };
+  }
+  if (d20 && advantageType !== "normal") {
+    d20.count = 2;
+    d20.select = { mode: advantageType === "advantage" ? "kh" : "kl", count: 1 };
+  }
 
-  return {
-    rolls: [chosen],
-    total: chosen + modifier,
-    modifier,
-    natural: chosen,
-    isCritical: chosen === 20,
-    isFumble: chosen === 1,
-    advantage: advantageType,
-    discardedRoll: discarded,
-  };
+  return tracked(notation, () => {
+    const result = rollTerms(specs, false);
+    if (d20 && advantageType !== "normal") {
+      result.advantage = advantageType;
+      result.discardedRoll = result.terms
+        ?.flatMap((t) => t.dice ?? [])
+        .find((d) => d.dropped)?.value;
+    }
+    return result;
+  });
 }
 
 /**
  * Roll a single die
  */
 export function rollDie(sides: number): number {
-  return Math.floor(Math.random() * sides) + 1;
+  return rollDice(1, sides)[0];
 }
 
 /**
  * Roll multiple dice and sum them
  */
 export function rollDice(count: number, sides: number): number[] {
-  const rolls: number[] = [];
-  for (let i = 0; i < count; i++) {
-    rolls.push(rollDie(sides));
+  const result = tracked(`${count}d${sides}`, () => {
+    const rolls: number[] = [];
+    for (let i = 0; i < count; i++) {
+      rolls.push(drawDie(sides));
+    }
+    const natural = rolls.reduce((a, b) => a + b, 0);
+    return { rolls, total: natural, modifier: 0, natural, isCritical: false, isFumble: false };
+  });
+  return result.rolls;
+}
+
+/**
+ * Pick one entry from a weighted table (weight 2 is twice as likely as weight 1)
+ */
+export function rollOnTable<T extends { weight: number }>(table: T[]): T {
+  const total = table.reduce((sum, entry) => sum + entry.weight, 0);
+  let pick = rollDie(total);
+  for (const entry of table) {
+    pick -= entry.weight;
+    if (pick <= 0) return entry;
   }
-  return rolls;
+  return table[table.length - 1];
 }
 
 /**
@@ -128,53 +417,21 @@ export function rollInitiative(dexModifier: number): RollResult {
 }
 
 /**
- * Parse damage notation and roll
- * Supports multiple dice types: "2d6+3" or "1d8+1d6+4"
+ * Roll damage. A critical hit doubles every dice term ("2d6+3" rolls 4d6+3).
+ * Damage can't go below 0. Throws DiceExpressionError for invalid expressions.
  */
 export function rollDamage(notation: string, critical: boolean = false): RollResult {
-  // Split on + but preserve the + for modifiers
-  const parts = notation.split(/(?=[+-])/);
-
-  let totalRolls: number[] = [];
-  let totalModifier = 0;
-
-  for (const part of parts) {
-    const trimmed = part.trim();
-    const diceMatch = trimmed.match(/^([+-])?(\d+)d(\d+)$/i);
-
-    if (diceMatch) {
-      const [, sign, countStr, sidesStr] = diceMatch;
-      let count = parseInt(countStr);
-      const sides = parseInt(sidesStr);
-      const multiplier = sign === "-" ? -1 : 1;
+  const specs = parseDiceExpression(notation);
 
-      // Double dice on critical hit
-      if (critical) {
-        count *= 2;
-      }
-
-      const rolls = rollDice(count, sides);
-      totalRolls.push(...rolls.map(r => r * multiplier));
-    } else {
-      // It's a flat modifier
-      const num = parseInt(trimmed);
-      if (!isNaN(num)) {
-        totalModifier += num;
-      }
-    }
-  }
-
-  const natural = totalRolls.reduce((a, b) => a + b, 0);
-  const total = natural + totalModifier;
-
-  return {
-    rolls: totalRolls,
-    total: Math.max(0, total), // Damage can't be negative
-    modifier: totalModifier,
-    natural,
-    isCritical: critical,
-    isFumble: false,
-  };
+  return tracked(critical ? `${notation} (critical)` : notation, () => {
+    const result = rollTerms(specs, critical);
+    return {
+      ...result,
+      total: Math.max(0, result.total),
+      isCritical: critical,
+      isFumble: false,
+    };
+  });
 }
 
 /**
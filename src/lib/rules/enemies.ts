@@ -2,12 +2,14 @@
 
 import { DamageType, Condition } from "../character";
 import { Enemy, EnemyAttack } from "./combat";
+import { rollDie } from "./dice";
 
 export interface EnemyTemplate {
   name: string;
   maxHp: number;
   armorClass: number;
   speed: number;
+  darkvision?: number; // Range in feet, undefined if none
   abilities: {
     strength: number;
     dexterity: number;
@@ -30,6 +32,7 @@ export interface EnemyTemplate {
 export interface EnemyTrait {
   name: string;
   description: string;
+  multiattack?: string[]; // attacks made together on one turn, by name
 }
 
 // ============= ENEMY TEMPLATES =============
@@ -107,6 +110,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 7,
     armorClass: 15,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 8,
       dexterity: 14,
@@ -146,6 +150,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 13,
     armorClass: 13,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 10,
       dexterity: 14,
@@ -219,6 +224,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 22,
     armorClass: 8,
     speed: 20,
+    darkvision: 60,
     abilities: {
       strength: 13,
       dexterity: 6,
@@ -254,6 +260,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 15,
     armorClass: 13,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 16,
       dexterity: 12,
@@ -293,6 +300,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 11,
     armorClass: 18,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 13,
       dexterity: 12,
@@ -333,6 +341,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 27,
     armorClass: 16,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 15,
       dexterity: 14,
@@ -376,6 +385,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 22,
     armorClass: 12,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 13,
       dexterity: 15,
@@ -412,6 +422,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 59,
     armorClass: 11,
     speed: 40,
+    darkvision: 60,
     abilities: {
       strength: 19,
       dexterity: 8,
@@ -446,6 +457,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 59,
     armorClass: 13,
     speed: 40,
+    darkvision: 60,
     abilities: {
       strength: 20,
       dexterity: 12,
@@ -471,6 +483,11 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     challengeRating: 3,
     xpValue: 700,
     traits: [
+      {
+        name: "Multiattack",
+        description: "The owlbear makes two attacks: one with its beak and one with its claws.",
+        multiattack: ["Beak", "Claws"],
+      },
       {
         name: "Keen Sight and Smell",
         description: "The owlbear has advantage on Wisdom (Perception) checks that rely on sight or smell.",
@@ -485,6 +502,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 21,
     armorClass: 17,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 10,
       dexterity: 14,
@@ -511,6 +529,11 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     challengeRating: 1,
     xpValue: 200,
     traits: [
+      {
+        name: "Multiattack",
+        description: "The goblin boss makes two attacks with its scimitar.",
+        multiattack: ["Scimitar", "Scimitar"],
+      },
       {
         name: "Nimble Escape",
         description: "The goblin can take the Disengage or Hide action as a bonus action on each of its turns.",
@@ -528,6 +551,7 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     maxHp: 93,
     armorClass: 16,
     speed: 30,
+    darkvision: 60,
     abilities: {
       strength: 18,
       dexterity: 12,
@@ -554,6 +578,11 @@ export const ENEMIES: Record<string, EnemyTemplate> = {
     challengeRating: 4,
     xpValue: 1100,
     traits: [
+      {
+        name: "Multiattack",
+        description: "The war chief makes two attacks with its greataxe.",
+        multiattack: ["Greataxe", "Greataxe"],
+      },
       {
         name: "Aggressive",
         description: "As a bonus action, the orc can move up to its speed toward a hostile creature it can see.",
@@ -591,6 +620,7 @@ export function createEnemy(templateId: string): Enemy | null {
     currentHp: template.maxHp,
     armorClass: template.armorClass,
     speed: template.speed,
+    darkvision: template.darkvision,
     abilities: { ...template.abilities },
     attacks: [...template.attacks],
     challengeRating: template.challengeRating,
@@ -599,6 +629,8 @@ export function createEnemy(templateId: string): Enemy | null {
     vulnerabilities: template.vulnerabilities ? [...template.vulnerabilities] : undefined,
     resistances: template.resistances ? [...template.resistances] : undefined,
     immunities: template.immunities ? [...template.immunities] : undefined,
+    conditionImmunities: template.conditionImmunities ? [...template.conditionImmunities] : undefined,
+    traits: template.traits?.map((t) => ({ ...t })),
   };
 }
 
@@ -674,7 +706,7 @@ export function getRandomEnemyForLevel(partyLevel: number): string {
 
   const level = Math.min(Math.max(partyLevel, 1), 5);
   const options = suitableEnemies[level];
-  return options[Math.floor(Math.random() * options.length)];
+  return options[rollDie(options.length) - 1];
 }
 
 /**
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  BattleMap,
+  Position,
+  createBattleMap,
+  formatSquare,
+  getApproach,
+  getCombatantsInArea,
+  getDistance,
+  getDistanceBetween,
+  getMovementCost,
+  getTerrain,
+  isFlanking,
+  parseSquare,
+  renderBattleMap,
+} from "./grid";
+
+// A map drawn as rows of terrain, with combatants placed by square name
+function makeMap(terrain: string[], positions: Record<string, string> = {}): BattleMap {
+  return {
+    width: terrain[0].length,
+    height: terrain.length,
+    terrain,
+    positions: Object.fromEntries(Object.entries(positions).map(([id, square]) => [id, parseSquare(square)!])),
+  };
+}
+
+const at = (square: string): Position => parseSquare(square)!;
+
+describe("squares", () => {
+  it("names squares like a chessboard from the top left", () => {
+    expect(parseSquare("C4")).toEqual({ x: 2, y: 3 });
+    expect(parseSquare(" c4 ")).toEqual({ x: 2, y: 3 });
+    expect(formatSquare({ x: 11, y: 7 })).toBe("L8");
+  });
+
+  it("rejects names that aren't squares", () => {
+    expect(parseSquare("4C")).toBeNull();
+    expect(parseSquare("C")).toBeNull();
+    expect(parseSquare("C123")).toBeNull();
+  });
+
+  it("treats anything off the map as wall", () => {
+    const map = makeMap([".~#"]);
+    expect(getTerrain(map, at("A1"))).toBe("open");
+    expect(getTerrain(map, at("B1"))).toBe("difficult");
+    expect(getTerrain(map, at("C1"))).toBe("wall");
+    expect(getTerrain(map, at("D1"))).toBe("wall");
+    expect(getTerrain(map, { x: -1, y: 0 })).toBe("wall");
+  });
+});
+
+describe("distance", () => {
+  it("counts diagonals as 5 feet", () => {
+    expect(getDistance(at("A1"), at("D4"))).toBe(15);
+    expect(getDistance(at("A1"), at("B1"))).toBe(5);
+  });
+
+  it("is null for anyone not on the map", () => {
+    const map = makeMap(["...."], { hero: "A1", orc: "D1" });
+    expect(getDistanceBetween(map, "hero", "orc")).toBe(15);
+    expect(getDistanceBetween(map, "hero", "ghost")).toBeNull();
+  });
+});
+
+describe("createBattleMap", () => {
+  it("deploys the party on the left and enemies on the right, on open ground", () => {
+    const map = createBattleMap(["a", "b"], ["x", "y", "z"]);
+    expect(map.terrain).toHaveLength(map.height);
+    for (const id of ["a", "b"]) expect(map.positions[id].x).toBeLessThan(3);
+    for (const id of ["x", "y", "z"]) expect(map.positions[id].x).toBeGreaterThanOrEqual(map.width - 3);
+    for (const position of Object.values(map.positions)) expect(getTerrain(map, position)).toBe("open");
+    expect(new Set(Object.values(map.positions).map(formatSquare)).size).toBe(5);
+  });
+});
+
+describe("getMovementCost", () => {
+  const map = makeMap([
+    "...#.",
+    ".~.#.",
+    ".....",
+  ], { hero: "A1", ally: "A3" });
+
+  it("doubles the cost of difficult terrain", () => {
+    expect(getMovementCost(map, at("A1"), at("B2"), [])).toEqual({ cost: 10 });
+    expect(getMovementCost(map, at("A1"), at("C2"), [])).toEqual({ cost: 10 });
+  });
+
+  it("goes around walls", () => {
+    expect(getMovementCost(map, at("A1"), at("E1"), [])).toEqual({ cost: 25 });
+  });
+
+  it("won't end on walls, other creatures or off the map", () => {
+    expect(getMovementCost(map, at("A1"), at("D1"), [])).toMatchObject({ error: expect.stringContaining("wall") });
+    expect(getMovementCost(map, at("A1"), at("A3"), [])).toMatchObject({ error: expect.stringContaining("occupied") });
+    expect(getMovementCost(map, at("A1"), at("F1"), [])).toMatchObject({ error: expect.stringContaining("off the map") });
+  });
+
+  it("can't pass through enemies", () => {
+    const blocked = [at("C3"), at("D3")];
+    expect(getMovementCost(map, at("A1"), at("E1"), blocked)).toMatchObject({ error: expect.stringContaining("no way") });
+  });
+});
+
+describe("getApproach", () => {
+  const map = makeMap([
+    "......",
+    "......",
+  ], { wolf: "A1", hero: "F1" });
+
+  it("stays put when the target is already in reach", () => {
+    expect(getApproach(map, at("E1"), at("F1"), 30, 5, [])).toMatchObject({ position: at("E1"), cost: 0 });
+  });
+
+  it("moves the least distance needed to get in reach", () => {
+    expect(getApproach(map, at("A1"), at("F1"), 30, 5, [])).toMatchObject({ cost: 20 });
+  });
+
+  it("gets as close as it can when it can't reach", () => {
+    const approach = getApproach(map, at("A1"), at("F1"), 10, 5, []);
+    expect(approach.cost).toBe(10);
+    expect(getDistance(approach.position, at("F1"))).toBe(15);
+  });
+});
+
+describe("areas", () => {
+  const map = makeMap([
+    ".....",
+    ".....",
+    ".....",
+    ".....",
+    ".....",
+  ], { caster: "A3", near: "B3", far: "E3", off: "B1", beside: "C1" });
+
+  it("catches everyone within a sphere's radius", () => {
+    expect(getCombatantsInArea(map, at("C3"), "sphere", 5).sort()).toEqual(["near"]);
+    expect(getCombatantsInArea(map, at("C3"), "sphere", 10).sort()).toEqual(["beside", "caster", "far", "near", "off"]);
+  });
+
+  it("spreads a cone from the caster towards the aim, without the caster", () => {
+    const caught = getCombatantsInArea(map, at("A3"), "cone", 15, at("D3"));
+    expect(caught).toContain("near");
+    expect(caught).not.toContain("caster");
+    expect(caught).not.toContain("far");
+    expect(caught).not.toContain("off");
+  });
+});
+
+describe("isFlanking", () => {
+  const map = makeMap([
+    "...",
+    "...",
+    "...",
+  ], { rogue: "A2", orc: "B2", fighter: "C2", cleric: "C1" });
+
+  it("needs an ally directly across the target", () => {
+    expect(isFlanking(map, "rogue", "orc", ["fighter"])).toBe(true);
+    expect(isFlanking(map, "rogue", "orc", ["cleric"])).toBe(false);
+  });
+
+  it("needs the attacker next to the target", () => {
+    const apart = makeMap(["....."], { rogue: "A1", orc: "C1", fighter: "D1" });
+    expect(isFlanking(apart, "rogue", "orc", ["fighter"])).toBe(false);
+  });
+});
+
+describe("renderBattleMap", () => {
+  it("draws terrain with combatants on top", () => {
+    const map = makeMap([".~", "#."], { hero: "B2" });
+    expect(renderBattleMap(map, { hero: "H" })).toEqual(["   AB", " 1 .~", " 2 #H"]);
+  });
+});
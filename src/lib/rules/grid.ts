@@ -0,0 +1,262 @@
+// Battle map - a grid of 5-foot squares with terrain and where everyone
+// stands. Squares are named like a chessboard: columns A, B, C... and rows
+// 1, 2, 3... from the top left. Pure, so the room page can draw it.
+
+import { rollDice } from "./dice";
+
+export const SQUARE_FEET = 5;
+
+const MAP_WIDTH = 12;
+const MAP_HEIGHT = 8;
+const DEPLOY_COLUMNS = 3; // clear columns on each side where the two sides start
+
+export type Terrain = "open" | "difficult" | "wall";
+
+// One character per square in BattleMap.terrain
+const TERRAIN_SYMBOLS: Record<string, Terrain> = { ".": "open", "~": "difficult", "#": "wall" };
+
+export interface Position {
+  x: number; // column, 0 = A
+  y: number; // row, 0 = 1
+}
+
+export interface BattleMap {
+  width: number;
+  height: number;
+  terrain: string[]; // one string per row: "." open, "~" difficult terrain, "#" wall
+  positions: Record<string, Position>; // by combatant ID
+}
+
+/**
+ * Lay out a fresh battlefield: the party on the left, enemies on the right,
+ * and some rubble and pillars scattered between them
+ */
+export function createBattleMap(partyIds: string[], enemyIds: string[]): BattleMap {
+  // One roll for the whole middle of the map, so it's a single entry in the roll log
+  const middleWidth = MAP_WIDTH - 2 * DEPLOY_COLUMNS;
+  const rolls = rollDice(middleWidth * MAP_HEIGHT, 100);
+
+  const terrain: string[] = [];
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    let row = "";
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const inDeployZone = x < DEPLOY_COLUMNS || x >= MAP_WIDTH - DEPLOY_COLUMNS;
+      const chance = inDeployZone ? 0 : rolls[y * middleWidth + x - DEPLOY_COLUMNS];
+      row += chance > 90 ? "~" : chance > 85 ? "#" : ".";
+    }
+    terrain.push(row);
+  }
+
+  const positions: Record<string, Position> = {};
+  deploy(partyIds, [1, 0, 2], positions);
+  deploy(enemyIds, [MAP_WIDTH - 2, MAP_WIDTH - 1, MAP_WIDTH - 3], positions);
+
+  return { width: MAP_WIDTH, height: MAP_HEIGHT, terrain, positions };
+}
+
+// Line a side up down its columns, working out from the middle row
+function deploy(ids: string[], columns: number[], positions: Record<string, Position>): void {
+  const middle = Math.floor(MAP_HEIGHT / 2);
+  const rows = Array.from({ length: MAP_HEIGHT }, (_, i) => middle + (i % 2 === 0 ? i / 2 : -(i + 1) / 2));
+  const squares = columns.flatMap((x) => rows.map((y) => ({ x, y })));
+  ids.forEach((id, i) => {
+    if (i < squares.length) positions[id] = squares[i];
+  });
+}
+
+export function getTerrain(map: BattleMap, { x, y }: Position): Terrain {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return "wall";
+  return TERRAIN_SYMBOLS[map.terrain[y][x]] ?? "open";
+}
+
+/**
+ * Distance in feet. Diagonals count as 5 feet, like the PHB grid rules.
+ */
+export function getDistance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y)) * SQUARE_FEET;
+}
+
+/**
+ * Distance between two combatants on the map, or null if either isn't on it
+ */
+export function getDistanceBetween(map: BattleMap, aId: string, bId: string): number | null {
+  const a = map.positions[aId];
+  const b = map.positions[bId];
+  return a && b ? getDistance(a, b) : null;
+}
+
+export function getOccupant(map: BattleMap, position: Position): string | null {
+  const entry = Object.entries(map.positions).find(([, p]) => p.x === position.x && p.y === position.y);
+  return entry?.[0] ?? null;
+}
+
+/**
+ * "C4"
+ */
+export function formatSquare({ x, y }: Position): string {
+  return `${String.fromCharCode(65 + x)}${y + 1}`;
+}
+
+/**
+ * "C4" or "c4" -> { x: 2, y: 3 }. Returns null if it isn't a square name.
+ */
+export function parseSquare(square: string): Position | null {
+  const match = square.trim().toUpperCase().match(/^([A-Z])(\d{1,2})$/);
+  if (!match) return null;
+  return { x: match[1].charCodeAt(0) - 65, y: Number(match[2]) - 1 };
+}
+
+/**
+ * Cheapest cost in feet to reach every square from `from`. Walls and squares
+ * in `blocked` (held by enemies) can't be crossed; difficult terrain costs double.
+ */
+function getMovementCosts(map: BattleMap, from: Position, blocked: Position[]): Map<string, number> {
+  const key = (p: Position) => `${p.x},${p.y}`;
+  const blockedKeys = new Set(blocked.map(key));
+  const costs = new Map<string, number>([[key(from), 0]]);
+  const queue: Position[] = [from];
+
+  // Few enough squares that re-queueing on every improvement is fine
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const cost = costs.get(key(current))!;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const next = { x: current.x + dx, y: current.y + dy };
+        const terrain = getTerrain(map, next);
+        if ((dx === 0 && dy === 0) || terrain === "wall" || blockedKeys.has(key(next))) continue;
+        const nextCost = cost + (terrain === "difficult" ? 2 : 1) * SQUARE_FEET;
+        if (nextCost < (costs.get(key(next)) ?? Infinity)) {
+          costs.set(key(next), nextCost);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  return costs;
+}
+
+/**
+ * What it costs to move to a square, or an error if it can't be done
+ */
+export function getMovementCost(
+  map: BattleMap,
+  from: Position,
+  to: Position,
+  blocked: Position[]
+): { cost: number } | { error: string } {
+  if (to.x < 0 || to.y < 0 || to.x >= map.width || to.y >= map.height) return { error: `${formatSquare(to)} is off the map` };
+  if (getTerrain(map, to) === "wall") return { error: `${formatSquare(to)} is blocked by a wall` };
+  if (getOccupant(map, to)) return { error: `${formatSquare(to)} is occupied` };
+
+  const cost = getMovementCosts(map, from, blocked).get(`${to.x},${to.y}`);
+  if (cost === undefined) return { error: `There's no way through to ${formatSquare(to)}` };
+  return { cost };
+}
+
+/**
+ * Where to move to close in on a target with `feet` of movement: the
+ * cheapest free square within `reach` of it, or failing that the free square
+ * that gets closest
+ */
+export function getApproach(
+  map: BattleMap,
+  from: Position,
+  target: Position,
+  feet: number,
+  reach: number,
+  blocked: Position[]
+): { position: Position; cost: number } {
+  let best = { position: from, cost: 0, distance: getDistance(from, target) };
+  if (best.distance <= reach) return best;
+
+  for (const [square, cost] of getMovementCosts(map, from, blocked)) {
+    if (cost > feet) continue;
+    const [x, y] = square.split(",").map(Number);
+    const position = { x, y };
+    if (getOccupant(map, position)) continue;
+
+    const distance = getDistance(position, target);
+    const better = distance <= reach
+      ? best.distance > reach || cost < best.cost
+      : distance < best.distance || (distance === best.distance && cost < best.cost);
+    if (better) best = { position, cost, distance };
+  }
+
+  return { position: best.position, cost: best.cost };
+}
+
+/**
+ * Whether a square is caught in a spell's area. Spheres are centred on
+ * `origin`; cones spread from `origin` towards `toward`, as wide at any
+ * point as they are far from the origin, and don't include the origin itself.
+ */
+export function isInArea(
+  square: Position,
+  origin: Position,
+  shape: "cone" | "sphere",
+  size: number,
+  toward: Position = origin
+): boolean {
+  const distance = getDistance(origin, square);
+  if (distance > size) return false;
+  if (shape === "sphere") return true;
+
+  const aim = { x: toward.x - origin.x, y: toward.y - origin.y };
+  const length = Math.hypot(aim.x, aim.y);
+  if (length === 0 || distance === 0) return false;
+
+  const offset = { x: square.x - origin.x, y: square.y - origin.y };
+  const along = (offset.x * aim.x + offset.y * aim.y) / length;
+  const across = Math.abs(offset.x * aim.y - offset.y * aim.x) / length;
+  // Half a square of slack so squares the cone's edge clips still count
+  return along > 0 && across <= along / 2 + 0.5;
+}
+
+/**
+ * Everyone standing in a spell's area, by combatant ID
+ */
+export function getCombatantsInArea(
+  map: BattleMap,
+  origin: Position,
+  shape: "cone" | "sphere",
+  size: number,
+  toward?: Position
+): string[] {
+  return Object.entries(map.positions)
+    .filter(([, position]) => isInArea(position, origin, shape, size, toward))
+    .map(([id]) => id);
+}
+
+/**
+ * Whether an ally stands directly opposite the attacker, with the target
+ * between them - the DMG's optional flanking rule
+ */
+export function isFlanking(map: BattleMap, attackerId: string, targetId: string, allyIds: string[]): boolean {
+  const attacker = map.positions[attackerId];
+  const target = map.positions[targetId];
+  if (!attacker || !target || getDistance(attacker, target) > SQUARE_FEET) return false;
+
+  const opposite = { x: 2 * target.x - attacker.x, y: 2 * target.y - attacker.y };
+  return allyIds.some((id) => {
+    const ally = map.positions[id];
+    return ally?.x === opposite.x && ally.y === opposite.y;
+  });
+}
+
+/**
+ * Draw the map as text, one string per row with the column letters on top.
+ * `labels` gives each combatant's one-character marker.
+ */
+export function renderBattleMap(map: BattleMap, labels: Record<string, string>): string[] {
+  const header = "   " + Array.from({ length: map.width }, (_, x) => String.fromCharCode(65 + x)).join("");
+  const rows = map.terrain.map((row, y) => {
+    const squares = row.split("").map((symbol, x) => {
+      const occupant = getOccupant(map, { x, y });
+      return occupant ? labels[occupant] ?? "?" : symbol;
+    });
+    return `${String(y + 1).padStart(2)} ${squares.join("")}`;
+  });
+  return [header, ...rows];
+}
@@ -1,6 +1,7 @@
 // D&D 5e Race Definitions
 
-import { Race, Abilities, Ability, Skill } from "../character";
+import { Race, Abilities, Ability, Skill, Condition, DamageType } from "../character";
+import type { LightLevel } from "../clock";
 
 export interface RaceDefinition {
   name: Race;
@@ -20,6 +21,18 @@ export interface RaceTrait {
   description: string;
 }
 
+// Traits that give advantage on saving throws against a condition or damage type
+const SAVE_ADVANTAGE_TRAITS: Record<string, (Condition | DamageType)[]> = {
+  Brave: ["frightened"],
+  "Fey Ancestry": ["charmed"],
+  "Dwarven Resilience": ["poisoned", "poison"],
+};
+
+// Traits that give resistance to a damage type
+const RESISTANCE_TRAITS: Record<string, DamageType[]> = {
+  "Dwarven Resilience": ["poison"],
+};
+
 export const RACES: Record<Race, RaceDefinition> = {
   human: {
     name: "human",
@@ -208,3 +221,51 @@ export function hasTrait(race: Race, traitName: string): boolean {
 export function getRaceTraits(race: Race): RaceTrait[] {
   return [...RACES[race].traits];
 }
+
+/**
+ * Whether a race rerolls natural 1s on the d20 (Halfling Lucky)
+ */
+export function isLucky(race: Race): boolean {
+  return hasTrait(race, "Lucky");
+}
+
+/**
+ * Whether a race has advantage on a save against a condition or damage type
+ * (Brave, Fey Ancestry, Dwarven Resilience)
+ */
+export function hasSaveAdvantage(race: Race, against: Condition | DamageType): boolean {
+  return Object.entries(SAVE_ADVANTAGE_TRAITS).some(
+    ([trait, types]) => types.includes(against) && hasTrait(race, trait)
+  );
+}
+
+/**
+ * Whether magic can't put a race to sleep (Fey Ancestry)
+ */
+export function resistsMagicalSleep(race: Race): boolean {
+  return hasTrait(race, "Fey Ancestry");
+}
+
+/**
+ * Damage types a race resists
+ */
+export function getRaceResistances(race: Race): DamageType[] {
+  return Object.entries(RESISTANCE_TRAITS)
+    .filter(([trait]) => hasTrait(race, trait))
+    .flatMap(([, types]) => types);
+}
+
+/**
+ * How the light looks to a race: darkvision sees dim light as bright and
+ * darkness as dim
+ */
+export function getLightSeen(race: Race, light: LightLevel): LightLevel {
+  return getDarkvision(race) > 0 ? seeWithDarkvision(light) : light;
+}
+
+/**
+ * How the light looks to anything with darkvision, monsters included
+ */
+export function seeWithDarkvision(light: LightLevel): LightLevel {
+  return light === "dark" ? "dim" : "bright";
+}
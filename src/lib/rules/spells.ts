@@ -181,7 +181,9 @@ export const SPELLS_LEVEL_1: Record<string, Spell> = {
     components: "V, S, M (a pinch of sand)",
     duration: "1 minute",
     concentration: false,
-    description: "Roll 5d8; the total is how many hit points of creatures this spell can affect. Starting with the lowest current HP, creatures fall unconscious.",
+    description: "Roll 5d8; the total is how many hit points of creatures this spell can affect. Starting with the lowest current HP, creatures within 20 feet of a point you choose fall unconscious.",
+    area: { shape: "sphere", size: 20 },
+    hpPool: { dice: "5d8", perSlotLevel: 2 },
     higherLevels: "Roll an additional 2d8 for each slot level above 1st.",
   },
   burning_hands: {
@@ -198,6 +200,8 @@ export const SPELLS_LEVEL_1: Record<string, Spell> = {
     damage: "3d6",
     damageType: "fire",
     savingThrow: "dexterity",
+    halfOnSave: true,
+    area: { shape: "cone", size: 15 },
     higherLevels: "Damage increases by 1d6 for each slot level above 1st.",
   },
 
@@ -239,6 +243,7 @@ export const SPELLS_LEVEL_1: Record<string, Spell> = {
     duration: "Concentration, up to 1 minute",
     concentration: true,
     description: "You bless up to three creatures of your choice within range. Whenever a target makes an attack roll or saving throw before the spell ends, the target can roll a d4 and add the number rolled.",
+    maxTargets: 3,
     higherLevels: "One additional creature for each slot level above 1st.",
   },
   guiding_bolt: {
@@ -315,6 +320,9 @@ export const SPELLS_LEVEL_2: Record<string, Spell> = {
     concentration: true,
     description: "Choose a humanoid that you can see within range. The target must succeed on a Wisdom saving throw or be paralyzed for the duration. The target can make a new save at the end of each of its turns.",
     savingThrow: "wisdom",
+    condition: "paralyzed",
+    repeatSave: true,
+    maxTargets: 1,
     higherLevels: "Target one additional humanoid for each slot level above 2nd.",
   },
   spiritual_weapon: {
@@ -403,17 +411,18 @@ export function getStartingSpells(characterClass: "wizard" | "cleric"): Spell[]
 }
 
 /**
- * Check if a character can cast a spell
+ * Check if a character can cast a spell, with a slot of the given level
+ * (the spell's own level by default)
  */
-export function canCastSpell(character: Character, spell: Spell): boolean {
+export function canCastSpell(character: Character, spell: Spell, level: number = spell.level): boolean {
   // Cantrips can always be cast
   if (spell.level === 0) return true;
 
   // Check if character has spell slots of the required level
-  const slotLevel = spell.level as keyof typeof character.spellSlots;
+  const slotLevel = level as keyof typeof character.spellSlots;
   const slots = character.spellSlots[slotLevel];
 
-  return slots && slots.current > 0;
+  return !!slots && slots.current > 0;
 }
 
 /**
@@ -455,6 +464,37 @@ export function rollSpellDamage(spell: Spell, slotLevel: number, critical: boole
   return roll(damage);
 }
 
+/**
+ * Roll Sleep's pool of hit points, with the extra dice for upcasting
+ */
+export function rollSpellPool(spell: Spell, slotLevel: number): RollResult | null {
+  if (!spell.hpPool) return null;
+
+  const match = spell.hpPool.dice.match(/(\d+)d(\d+)/);
+  if (!match) return null;
+  const extraDice = Math.max(0, slotLevel - spell.level) * spell.hpPool.perSlotLevel;
+  return roll(`${parseInt(match[1]) + extraDice}d${match[2]}`);
+}
+
+/**
+ * How many creatures a spell can target when cast at a given slot level
+ */
+export function getMaxTargets(spell: Spell, slotLevel: number): number {
+  if (!spell.maxTargets) return 1;
+  return spell.maxTargets + Math.max(0, slotLevel - spell.level);
+}
+
+/**
+ * Range in feet: "120 feet" -> 120, "Touch" -> 5, "Self" -> 0.
+ * Null if there's no number to go on.
+ */
+export function getSpellRange(spell: Spell): number | null {
+  if (spell.range.startsWith("Self")) return 0;
+  if (spell.range === "Touch") return 5;
+  const match = spell.range.match(/^(\d+) feet/);
+  return match ? parseInt(match[1]) : null;
+}
+
 /**
  * Get spell save DC
  */
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { CombatState, Enemy, createTurnResources } from "./combat";
+import { setDiceContextProvider } from "./dice";
+import { createEnemy } from "./enemies";
+import { parseSquare } from "./grid";
+import { getTraitAdvantage, getTurnAttacks, resolveTraitDamage, rollTraitDamage, startEnemyTurn } from "./traits";
+
+// Make the next dice come up as the given faces: [value, sides] pairs
+function riggedDice(...faces: [number, number][]) {
+  const queue = [...faces];
+  setDiceContextProvider(() => ({
+    random: () => {
+      const next = queue.shift();
+      if (!next) throw new Error("Ran out of rigged dice");
+      const [value, sides] = next;
+      return (value - 0.5) / sides;
+    },
+  }));
+}
+
+afterEach(() => {
+  setDiceContextProvider(() => null);
+});
+
+function enemy(templateId: string, id: string): Enemy {
+  return { ...createEnemy(templateId)!, id };
+}
+
+// A fight on an open 6x3 map against one hero, with everyone placed by square name
+function makeCombat(enemies: Enemy[], positions: Record<string, string>): CombatState {
+  const combatants = [{ id: "hero", name: "Hero", speed: 30 }, ...enemies];
+  return {
+    active: true,
+    round: 1,
+    turnIndex: 0,
+    initiativeOrder: combatants.map((c) => ({
+      id: c.id,
+      name: c.name,
+      type: c.id === "hero" ? "player" : "enemy",
+      initiative: 10,
+      hasActed: false,
+      speed: c.speed,
+      resources: createTurnResources(c.speed),
+    })),
+    enemies,
+    environment: "test",
+    map: {
+      width: 6,
+      height: 3,
+      terrain: ["......", "......", "......"],
+      positions: Object.fromEntries(Object.entries(positions).map(([id, square]) => [id, parseSquare(square)!])),
+    },
+    log: [],
+  };
+}
+
+describe("Pack Tactics", () => {
+  it("gives advantage with a packmate beside the target", () => {
+    const wolves = [enemy("wolf", "w1"), enemy("wolf", "w2")];
+    const combat = makeCombat(wolves, { hero: "C2", w1: "B2", w2: "D2" });
+    expect(getTraitAdvantage(combat, wolves[0], "hero")).toEqual({ advantage: "advantage", notes: ["Pack Tactics"] });
+  });
+
+  it("doesn't count packmates that are away, down or asleep", () => {
+    const wolves = [enemy("wolf", "w1"), enemy("wolf", "w2")];
+    const far = makeCombat(wolves, { hero: "C2", w1: "B2", w2: "F2" });
+    expect(getTraitAdvantage(far, wolves[0], "hero").advantage).toBe("normal");
+
+    const beside = { hero: "C2", w1: "B2", w2: "D2" };
+    const dead = makeCombat([wolves[0], { ...wolves[1], currentHp: 0 }], beside);
+    expect(getTraitAdvantage(dead, wolves[0], "hero").advantage).toBe("normal");
+    const asleep = makeCombat([wolves[0], { ...wolves[1], conditions: ["unconscious"] }], beside);
+    expect(getTraitAdvantage(asleep, wolves[0], "hero").advantage).toBe("normal");
+  });
+});
+
+describe("Martial Advantage", () => {
+  it("adds 2d6 once per turn with an ally beside the target", () => {
+    const hobgoblins = [enemy("hobgoblin", "h1"), enemy("hobgoblin", "h2")];
+    const combat = makeCombat(hobgoblins, { hero: "C2", h1: "B2", h2: "D2" });
+    const used = new Set<string>();
+
+    riggedDice([3, 6], [4, 6]);
+    expect(rollTraitDamage(combat, hobgoblins[0], "hero", hobgoblins[0].attacks[0], used)).toEqual({
+      damage: 7,
+      notes: ["Martial Advantage +7"],
+    });
+    expect(rollTraitDamage(combat, hobgoblins[0], "hero", hobgoblins[0].attacks[0], used).damage).toBe(0);
+  });
+});
+
+describe("Aggressive", () => {
+  it("dashes towards the party when nobody is in reach", () => {
+    const orc = enemy("orc", "o1");
+    const { combat } = startEnemyTurn(makeCombat([orc], { hero: "A2", o1: "F2" }), orc);
+    expect(combat.initiativeOrder.find((c) => c.id === "o1")?.resources.movement).toBe(orc.speed * 2);
+  });
+
+  it("stays put when already engaged", () => {
+    const orc = enemy("orc", "o1");
+    const { combat } = startEnemyTurn(makeCombat([orc], { hero: "A2", o1: "B2" }), orc);
+    expect(combat.initiativeOrder.find((c) => c.id === "o1")?.resources.movement).toBe(orc.speed);
+  });
+});
+
+describe("Undead Fortitude", () => {
+  const zombie = { ...enemy("zombie", "z1"), currentHp: 3 };
+
+  it("leaves the zombie on 1 HP when it makes the save", () => {
+    riggedDice([12, 20]);
+    const { hp, log } = resolveTraitDamage(zombie, 5, "slashing", false);
+    expect(hp).toBe(1);
+    expect(log[0]).toContain("vs DC 10 - SUCCESS");
+  });
+
+  it("lets it drop when it fails", () => {
+    riggedDice([2, 20]);
+    expect(resolveTraitDamage(zombie, 5, "slashing", false)).toMatchObject({ hp: null, log: [expect.stringContaining("FAILURE")] });
+  });
+
+  it("doesn't save against radiant damage, critical hits or damage it survives anyway", () => {
+    expect(resolveTraitDamage(zombie, 5, "radiant", false)).toEqual({ hp: null, log: [] });
+    expect(resolveTraitDamage(zombie, 5, "slashing", true)).toEqual({ hp: null, log: [] });
+    expect(resolveTraitDamage(zombie, 2, "slashing", false)).toEqual({ hp: null, log: [] });
+  });
+});
+
+describe("getTurnAttacks", () => {
+  it("makes the whole Multiattack routine when the attack is part of it", () => {
+    const owlbear = enemy("owlbear", "b1");
+    const beak = owlbear.attacks.find((a) => a.name === "Beak")!;
+    expect(getTurnAttacks(owlbear, beak).map((a) => a.name)).toEqual(["Beak", "Claws"]);
+  });
+
+  it("makes a single attack that isn't part of the routine", () => {
+    const boss = enemy("goblin_boss", "g1");
+    const javelin = boss.attacks.find((a) => a.name === "Javelin")!;
+    expect(getTurnAttacks(boss, javelin)).toEqual([javelin]);
+  });
+});
@@ -0,0 +1,174 @@
+// Monster traits as rules. Traits are data on the stat block; the ones listed
+// here also hook into the combat engine, which runs them when a monster's turn
+// starts, when it rolls to attack, when it hits, and when damage would drop it.
+// Traits without rules (Keen Hearing and Smell) stay flavour for the DM.
+
+import { DamageType } from "../character";
+import { AdvantageType, roll } from "./dice";
+import { enemySavingThrow } from "./abilities";
+import { CombatState, Enemy, EnemyAttack, applyDamageToEnemy, canTakeActions } from "./combat";
+import { SQUARE_FEET, getDistanceBetween } from "./grid";
+
+interface TraitRule {
+  // As the monster's turn starts. Returns the updated combat and maybe a log line.
+  onTurnStart?: (combat: CombatState, enemy: Enemy) => { combat: CombatState; text?: string } | null;
+  // Advantage on an attack roll against this target
+  onAttackRoll?: (combat: CombatState, enemy: Enemy, targetId: string) => boolean;
+  // Extra damage dice when an attack hits. Once per turn.
+  onHit?: (combat: CombatState, enemy: Enemy, targetId: string, attack: EnemyAttack) => string | null;
+  // When a hit would drop the monster to 0 HP: the HP it's left with instead, or null if it goes down
+  onDamage?: (enemy: Enemy, damage: { taken: number; damageType: DamageType; critical: boolean }) => {
+    hp: number | null;
+    text: string;
+  } | null;
+}
+
+// Another monster on the same side right next to the target, and able to fight
+function hasAllyBeside(combat: CombatState, enemy: Enemy, targetId: string): boolean {
+  return combat.enemies.some(
+    (e) =>
+      e.id !== enemy.id &&
+      e.currentHp > 0 &&
+      canTakeActions(e.conditions) &&
+      (getDistanceBetween(combat.map, e.id, targetId) ?? Infinity) <= SQUARE_FEET
+  );
+}
+
+const TRAIT_RULES: Record<string, TraitRule> = {
+  "Pack Tactics": {
+    onAttackRoll: (combat, enemy, targetId) => hasAllyBeside(combat, enemy, targetId),
+  },
+
+  "Martial Advantage": {
+    onHit: (combat, enemy, targetId) => (hasAllyBeside(combat, enemy, targetId) ? "2d6" : null),
+  },
+
+  Aggressive: {
+    onTurnStart: (combat, enemy) => {
+      // Only worth the bonus action when nobody's in reach yet
+      const engaged = combat.initiativeOrder.some(
+        (c) => c.type !== "enemy" && (getDistanceBetween(combat.map, enemy.id, c.id) ?? Infinity) <= SQUARE_FEET
+      );
+      if (engaged) return null;
+
+      const initiativeOrder = combat.initiativeOrder.map((c) =>
+        c.id === enemy.id && c.resources
+          ? { ...c, resources: { ...c.resources, movement: c.resources.movement + enemy.speed } }
+          : c
+      );
+      return { combat: { ...combat, initiativeOrder } };
+    },
+  },
+
+  "Undead Fortitude": {
+    onDamage: (enemy, { taken, damageType, critical }) => {
+      if (damageType === "radiant" || critical) return null;
+      const dc = 5 + taken;
+      const save = enemySavingThrow(enemy, "constitution", dc);
+      const result = `${enemy.name} CON save (Undead Fortitude): [${save.roll.natural}] = ${save.total} vs DC ${dc}`;
+      return save.success
+        ? { hp: 1, text: `${result} - SUCCESS, it drops to 1 HP instead` }
+        : { hp: null, text: `${result} - FAILURE` };
+    },
+  },
+};
+
+function getRules(enemy: Enemy): { name: string; rule: TraitRule }[] {
+  return (enemy.traits ?? [])
+    .filter((t) => TRAIT_RULES[t.name])
+    .map((t) => ({ name: t.name, rule: TRAIT_RULES[t.name] }));
+}
+
+/**
+ * Run a monster's start-of-turn traits (Aggressive's extra movement).
+ * Returns the updated combat and the log lines.
+ */
+export function startEnemyTurn(combat: CombatState, enemy: Enemy): { combat: CombatState; log: string[] } {
+  const log: string[] = [];
+  for (const { rule } of getRules(enemy)) {
+    const result = rule.onTurnStart?.(combat, enemy);
+    if (!result) continue;
+    combat = result.combat;
+    if (result.text) log.push(result.text);
+  }
+  return { combat, log };
+}
+
+/**
+ * Advantage a monster's traits give it against a target, and the notes for the log
+ */
+export function getTraitAdvantage(
+  combat: CombatState,
+  enemy: Enemy,
+  targetId: string
+): { advantage: AdvantageType; notes: string[] } {
+  const notes = getRules(enemy)
+    .filter(({ rule }) => rule.onAttackRoll?.(combat, enemy, targetId))
+    .map(({ name }) => name);
+  return { advantage: notes.length > 0 ? "advantage" : "normal", notes };
+}
+
+/**
+ * Roll the extra damage a monster's traits add to a hit. `used` holds the
+ * once-per-turn traits already spent this turn, and is updated.
+ */
+export function rollTraitDamage(
+  combat: CombatState,
+  enemy: Enemy,
+  targetId: string,
+  attack: EnemyAttack,
+  used: Set<string>
+): { damage: number; notes: string[] } {
+  let damage = 0;
+  const notes: string[] = [];
+
+  for (const { name, rule } of getRules(enemy)) {
+    if (used.has(name)) continue;
+    const dice = rule.onHit?.(combat, enemy, targetId, attack);
+    if (!dice) continue;
+    const extra = roll(dice).total;
+    damage += extra;
+    notes.push(`${name} +${extra}`);
+    used.add(name);
+  }
+
+  return { damage, notes };
+}
+
+/**
+ * Let a monster's traits react to damage that would drop it to 0 HP
+ * (Undead Fortitude). Returns the HP to leave it on instead, if any, and the
+ * log lines. Rolled before the damage is written, so retries don't re-roll.
+ */
+export function resolveTraitDamage(
+  enemy: Enemy,
+  amount: number,
+  damageType: DamageType,
+  critical: boolean
+): { hp: number | null; log: string[] } {
+  const { newHp } = applyDamageToEnemy(enemy, amount, damageType);
+  if (newHp > 0) return { hp: null, log: [] };
+
+  const log: string[] = [];
+  for (const { rule } of getRules(enemy)) {
+    const result = rule.onDamage?.(enemy, { taken: amount, damageType, critical });
+    if (!result) continue;
+    log.push(result.text);
+    if (result.hp !== null) return { hp: result.hp, log };
+  }
+  return { hp: null, log };
+}
+
+/**
+ * The attacks a monster makes on its turn: its Multiattack routine when the
+ * chosen attack is part of it, otherwise just the one
+ */
+export function getTurnAttacks(enemy: Enemy, chosen: EnemyAttack): EnemyAttack[] {
+  const routine = enemy.traits?.find((t) => t.multiattack?.includes(chosen.name))?.multiattack;
+  if (!routine) return [chosen];
+
+  const attacks = routine
+    .map((name) => enemy.attacks.find((a) => a.name === name))
+    .filter((a): a is EnemyAttack => !!a);
+  return attacks.length > 0 ? attacks : [chosen];
+}
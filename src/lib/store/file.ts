@@ -0,0 +1,139 @@
+// JSON file store - one file per room, for self-hosting on a single server.
+// Reads and writes are synchronous so a compare-and-set can't interleave
+// with another request in the same process.
+
+import fs from "node:fs";
+import path from "node:path";
+import type { GameState, TranscriptEntry } from "../game-state";
+import type { RoomEvent, StoredEvent } from "../events";
+import type { RollLogEntry } from "../rolls";
+import { GameStore, EVENT_LOG_SIZE, LIVE_EVENT_LOG_SIZE } from "./index";
+
+export function createFileStore(dir: string): GameStore {
+  fs.mkdirSync(dir, { recursive: true });
+
+  // Room codes come from URLs - keep them from escaping the directory
+  const safe = (code: string) => code.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const gamePath = (code: string) => path.join(dir, `${safe(code)}.json`);
+  const lockPath = (code: string) => path.join(dir, `${safe(code)}.lock`);
+  const eventsPath = (code: string) => path.join(dir, `${safe(code)}.events.json`);
+  const livePath = (code: string) => path.join(dir, `${safe(code)}.live.json`);
+  const rollsPath = (code: string) => path.join(dir, `${safe(code)}.rolls.json`);
+  const transcriptPath = (code: string, chunk: number) =>
+    path.join(dir, `${safe(code)}.transcript.${chunk}.json`);
+
+  const readJson = <T>(file: string): T | null => {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  };
+
+  // Write to a temp file and rename, so readers never see half a file
+  const writeJson = (file: string, data: unknown) => {
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data));
+    fs.renameSync(tmp, file);
+  };
+
+  const read = (code: string) => readJson<GameState>(gamePath(code));
+  const write = (code: string, state: GameState) => writeJson(gamePath(code), state);
+  const readLog = (file: string) => readJson<StoredEvent[]>(file) ?? [];
+
+  const appendLog = (file: string, events: RoomEvent[], size: number, revision?: number) => {
+    const log = readLog(file);
+    let seq = log.at(-1)?.seq ?? 0;
+    for (const event of events) {
+      log.push({ seq: ++seq, revision, event });
+    }
+    writeJson(file, log.slice(-size));
+  };
+
+  return {
+    async get(code) {
+      return read(code);
+    },
+
+    async create(code, state) {
+      if (read(code)) return false;
+      write(code, state);
+      return true;
+    },
+
+    async compareAndSet(code, state, expectedRevision) {
+      const revision = read(code)?.revision ?? 0;
+      if (revision !== expectedRevision) return false;
+      write(code, state);
+      return true;
+    },
+
+    async acquireLock(code, token, ttlMs) {
+      const lock = JSON.stringify({ token, expires: Date.now() + ttlMs });
+      try {
+        fs.writeFileSync(lockPath(code), lock, { flag: "wx" });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      // Someone holds it - take it over only if their lock has expired
+      try {
+        const held = JSON.parse(fs.readFileSync(lockPath(code), "utf8")) as { expires: number };
+        if (held.expires > Date.now()) return false;
+      } catch {
+        // Unreadable lock file - treat as stale
+      }
+      fs.writeFileSync(lockPath(code), lock);
+      return true;
+    },
+
+    async releaseLock(code, token) {
+      try {
+        const held = JSON.parse(fs.readFileSync(lockPath(code), "utf8")) as { token: string };
+        if (held.token === token) fs.unlinkSync(lockPath(code));
+      } catch {
+        // Already gone
+      }
+    },
+
+    async appendEvents(code, events, revision) {
+      appendLog(eventsPath(code), events, EVENT_LOG_SIZE, revision);
+    },
+
+    async readEvents(code, afterSeq) {
+      return readLog(eventsPath(code)).filter((e) => e.seq > afterSeq);
+    },
+
+    async latestEventSeq(code) {
+      return readLog(eventsPath(code)).at(-1)?.seq ?? 0;
+    },
+
+    async appendLiveEvents(code, events) {
+      appendLog(livePath(code), events, LIVE_EVENT_LOG_SIZE);
+    },
+
+    async readLiveEvents(code, afterSeq) {
+      return readLog(livePath(code)).filter((e) => e.seq > afterSeq);
+    },
+
+    async appendTranscriptChunk(code, chunk, entries) {
+      const file = transcriptPath(code, chunk);
+      writeJson(file, [...(readJson<TranscriptEntry[]>(file) ?? []), ...entries]);
+    },
+
+    async readTranscriptChunk(code, chunk) {
+      return readJson<TranscriptEntry[]>(transcriptPath(code, chunk)) ?? [];
+    },
+
+    async appendRolls(code, rolls) {
+      if (rolls.length === 0) return;
+      writeJson(rollsPath(code), [...(readJson<RollLogEntry[]>(rollsPath(code)) ?? []), ...rolls]);
+    },
+
+    async readRolls(code, afterSeq) {
+      return (readJson<RollLogEntry[]>(rollsPath(code)) ?? []).filter((r) => r.seq > afterSeq);
+    },
+  };
+}
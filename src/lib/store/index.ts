@@ -0,0 +1,94 @@
+// Storage backends for game state, picked by the GAME_STORE env var:
+//   kv     - Vercel KV / Upstash Redis (default when KV_REST_API_URL is set)
+//   file   - JSON files on disk under GAME_STORE_DIR (self-hosting on one server)
+//   memory - in-process only, lost on restart (local dev, tests)
+// Outside development one of them has to be configured explicitly.
+
+import type { GameState, TranscriptEntry } from "../game-state";
+import type { RoomEvent, StoredEvent } from "../events";
+import type { RollLogEntry } from "../rolls";
+import { createKvStore } from "./kv";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+
+export interface GameStore {
+  get(code: string): Promise<GameState | null>;
+  // Store a new game. Returns false if one already exists under that code.
+  create(code: string, state: GameState): Promise<boolean>;
+  // Write state only if the stored revision still equals expectedRevision
+  compareAndSet(code: string, state: GameState, expectedRevision: number): Promise<boolean>;
+  // Take the room's action lock. Returns false if someone else holds it.
+  acquireLock(code: string, token: string, ttlMs: number): Promise<boolean>;
+  // Release the lock, but only if token still owns it
+  releaseLock(code: string, token: string): Promise<void>;
+  // Append to the room's event log, numbering events in order.
+  // revision is the game revision the events bring state up to (omitted for non-state events).
+  appendEvents(code: string, events: RoomEvent[], revision?: number): Promise<void>;
+  // Events after afterSeq, oldest first (only the most recent EVENT_LOG_SIZE are kept)
+  readEvents(code: string, afterSeq: number): Promise<StoredEvent[]>;
+  // Sequence number of the newest event (0 if none)
+  latestEventSeq(code: string): Promise<number>;
+  // Append to the room's live log: streaming events (narration in progress) that
+  // clients only need while they're connected. Numbered separately, kept briefly.
+  appendLiveEvents(code: string, events: RoomEvent[]): Promise<void>;
+  // Live events after afterSeq, oldest first (only the most recent LIVE_EVENT_LOG_SIZE are kept)
+  readLiveEvents(code: string, afterSeq: number): Promise<StoredEvent[]>;
+  // Add entries to one chunk of the transcript archive
+  appendTranscriptChunk(code: string, chunk: number, entries: TranscriptEntry[]): Promise<void>;
+  // All entries in one archive chunk (empty if none), in no particular order
+  readTranscriptChunk(code: string, chunk: number): Promise<TranscriptEntry[]>;
+  // Add to the room's roll log (kept in full, for auditing)
+  appendRolls(code: string, rolls: RollLogEntry[]): Promise<void>;
+  // Logged rolls after afterSeq, oldest first
+  readRolls(code: string, afterSeq: number): Promise<RollLogEntry[]>;
+}
+
+export type GameStoreKind = "kv" | "file" | "memory";
+
+export const GAME_TTL_SECONDS = 86400 * 7; // 7 day expiry
+export const EVENT_LOG_SIZE = 500;
+export const LIVE_EVENT_LOG_SIZE = 100;
+export const LIVE_EVENT_TTL_SECONDS = 600; // a live log outlasts any one narration
+export const TRANSCRIPT_CHUNK_SIZE = 100; // archived entries per chunk, by seq
+
+let store: GameStore | null = null;
+
+function resolveKind(): GameStoreKind {
+  const kind = process.env.GAME_STORE ?? (process.env.KV_REST_API_URL ? "kv" : null);
+  if (kind === null) {
+    // A deploy that lost its KV config would otherwise keep rooms in memory
+    // and drop them on every restart, so only development falls back quietly
+    if (process.env.NODE_ENV !== "development" && process.env.NODE_ENV !== "test") {
+      throw new Error("No game store configured: set KV_REST_API_URL, or GAME_STORE to kv, file or memory");
+    }
+    console.warn("GAME_STORE is not set and KV_REST_API_URL is missing - keeping games in memory");
+    return "memory";
+  }
+  if (kind !== "kv" && kind !== "file" && kind !== "memory") {
+    throw new Error(`Unknown GAME_STORE "${kind}" (expected kv, file or memory)`);
+  }
+  return kind;
+}
+
+/**
+ * Get the configured store (created once per process)
+ */
+export function getStore(): GameStore {
+  if (!store) {
+    const kind = resolveKind();
+    store =
+      kind === "kv"
+        ? createKvStore()
+        : kind === "file"
+        ? createFileStore(process.env.GAME_STORE_DIR ?? ".data/games")
+        : createMemoryStore();
+  }
+  return store;
+}
+
+/**
+ * Swap the store out (e.g. a fresh memory store per integration test)
+ */
+export function setStore(next: GameStore | null): void {
+  store = next;
+}
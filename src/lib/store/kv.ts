@@ -0,0 +1,150 @@
+// Vercel KV (Upstash Redis) store
+
+import { kv } from "@vercel/kv";
+import type { GameState, TranscriptEntry } from "../game-state";
+import type { RoomEvent, StoredEvent } from "../events";
+import type { RollLogEntry } from "../rolls";
+import { GameStore, GAME_TTL_SECONDS, EVENT_LOG_SIZE, LIVE_EVENT_LOG_SIZE, LIVE_EVENT_TTL_SECONDS } from "./index";
+
+// Write ARGV[2] only if the stored game's revision still equals ARGV[1]
+const COMPARE_AND_SET = `
+local current = redis.call("GET", KEYS[1])
+local revision = 0
+if current then
+  revision = cjson.decode(current).revision or 0
+end
+if tonumber(ARGV[1]) ~= revision then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+return 1
+`;
+
+// Delete the lock only if we still own it
+const RELEASE_LOCK = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+// Number each event from a counter and push it onto the capped log
+const APPEND_EVENTS = `
+local revision = ARGV[#ARGV - 2]
+for i = 1, #ARGV - 3 do
+  local seq = redis.call("INCR", KEYS[2])
+  local entry = '{"seq":' .. seq
+  if revision ~= "" then
+    entry = entry .. ',"revision":' .. revision
+  end
+  redis.call("RPUSH", KEYS[1], entry .. ',"event":' .. ARGV[i] .. '}')
+end
+redis.call("LTRIM", KEYS[1], -tonumber(ARGV[#ARGV - 1]), -1)
+redis.call("EXPIRE", KEYS[1], ARGV[#ARGV])
+redis.call("EXPIRE", KEYS[2], ARGV[#ARGV])
+return 1
+`;
+
+// Seqs in the log run without gaps, so the events after ARGV[1] are its last
+// (newest seq - ARGV[1]) entries. Reading the counter and the list together
+// keeps an append from landing in between.
+const READ_EVENTS = `
+local count = tonumber(redis.call("GET", KEYS[2]) or "0") - tonumber(ARGV[1])
+if count <= 0 then
+  return {}
+end
+return redis.call("LRANGE", KEYS[1], -count, -1)
+`;
+
+const gameKey = (code: string) => `game:${code}`;
+const lockKey = (code: string) => `lock:${code}`;
+const eventsKey = (code: string) => `events:${code}`;
+const eventSeqKey = (code: string) => `events-seq:${code}`;
+const liveKey = (code: string) => `live:${code}`;
+const liveSeqKey = (code: string) => `live-seq:${code}`;
+const transcriptKey = (code: string, chunk: number) => `transcript:${code}:${chunk}`;
+const rollsKey = (code: string) => `rolls:${code}`;
+
+async function appendLog(keys: [string, string], events: RoomEvent[], size: number, ttl: number, revision?: number) {
+  if (events.length === 0) return;
+  await kv.eval(APPEND_EVENTS, keys, [...events.map((e) => JSON.stringify(e)), revision ?? "", size, ttl]);
+}
+
+async function readLog(keys: [string, string], afterSeq: number): Promise<StoredEvent[]> {
+  const log = await kv.eval<[number], (StoredEvent | string)[]>(READ_EVENTS, keys, [afterSeq]);
+  // The client parses JSON replies itself, but don't count on it for script results
+  return log.map((e) => (typeof e === "string" ? (JSON.parse(e) as StoredEvent) : e));
+}
+
+export function createKvStore(): GameStore {
+  return {
+    async get(code) {
+      return kv.get<GameState>(gameKey(code));
+    },
+
+    async create(code, state) {
+      const created = await kv.set(gameKey(code), state, { ex: GAME_TTL_SECONDS, nx: true });
+      return !!created;
+    },
+
+    async compareAndSet(code, state, expectedRevision) {
+      const written = await kv.eval(
+        COMPARE_AND_SET,
+        [gameKey(code)],
+        [expectedRevision, JSON.stringify(state), GAME_TTL_SECONDS]
+      );
+      return written === 1;
+    },
+
+    async acquireLock(code, token, ttlMs) {
+      const acquired = await kv.set(lockKey(code), token, { nx: true, px: ttlMs });
+      return !!acquired;
+    },
+
+    async releaseLock(code, token) {
+      await kv.eval(RELEASE_LOCK, [lockKey(code)], [token]);
+    },
+
+    async appendEvents(code, events, revision) {
+      await appendLog([eventsKey(code), eventSeqKey(code)], events, EVENT_LOG_SIZE, GAME_TTL_SECONDS, revision);
+    },
+
+    async readEvents(code, afterSeq) {
+      return readLog([eventsKey(code), eventSeqKey(code)], afterSeq);
+    },
+
+    async latestEventSeq(code) {
+      return (await kv.get<number>(eventSeqKey(code))) ?? 0;
+    },
+
+    async appendLiveEvents(code, events) {
+      await appendLog([liveKey(code), liveSeqKey(code)], events, LIVE_EVENT_LOG_SIZE, LIVE_EVENT_TTL_SECONDS);
+    },
+
+    async readLiveEvents(code, afterSeq) {
+      return readLog([liveKey(code), liveSeqKey(code)], afterSeq);
+    },
+
+    async appendTranscriptChunk(code, chunk, entries) {
+      if (entries.length === 0) return;
+      const key = transcriptKey(code, chunk);
+      await kv.rpush(key, ...entries);
+      await kv.expire(key, GAME_TTL_SECONDS);
+    },
+
+    async readTranscriptChunk(code, chunk) {
+      return kv.lrange<TranscriptEntry>(transcriptKey(code, chunk), 0, -1);
+    },
+
+    async appendRolls(code, rolls) {
+      if (rolls.length === 0) return;
+      await kv.rpush(rollsKey(code), ...rolls);
+      await kv.expire(rollsKey(code), GAME_TTL_SECONDS);
+    },
+
+    async readRolls(code, afterSeq) {
+      const log = await kv.lrange<RollLogEntry>(rollsKey(code), 0, -1);
+      return log.filter((r) => r.seq > afterSeq);
+    },
+  };
+}
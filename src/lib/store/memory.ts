@@ -0,0 +1,123 @@
+// In-memory store - lives as long as the server process
+
+import type { GameState, TranscriptEntry } from "../game-state";
+import type { RoomEvent, StoredEvent } from "../events";
+import type { RollLogEntry } from "../rolls";
+import { GameStore, EVENT_LOG_SIZE, LIVE_EVENT_LOG_SIZE } from "./index";
+
+export interface MemoryData {
+  games: Map<string, string>; // serialized, so callers never share references
+  locks: Map<string, { token: string; expires: number }>;
+  events: Map<string, StoredEvent[]>;
+  live: Map<string, StoredEvent[]>;
+  transcripts: Map<string, TranscriptEntry[]>; // keyed by "code:chunk"
+  rolls: Map<string, RollLogEntry[]>;
+}
+
+// Keep data on globalThis so dev-server hot reloads don't wipe it
+const globalData = globalThis as typeof globalThis & { __zorkMemoryStore?: MemoryData };
+
+// Number events on from the end of a capped log
+function append(
+  logs: Map<string, StoredEvent[]>,
+  code: string,
+  newEvents: RoomEvent[],
+  size: number,
+  revision?: number
+): void {
+  const log = logs.get(code) ?? [];
+  let seq = log.at(-1)?.seq ?? 0;
+  for (const event of newEvents) {
+    log.push(JSON.parse(JSON.stringify({ seq: ++seq, revision, event })));
+  }
+  logs.set(code, log.slice(-size));
+}
+
+// Seqs in a log run without gaps, so the events after a cursor are a tail slice
+function readAfter(log: StoredEvent[], afterSeq: number): StoredEvent[] {
+  const count = (log.at(-1)?.seq ?? 0) - afterSeq;
+  return count > 0 ? log.slice(-count) : [];
+}
+
+// Pass your own data for an isolated store; by default the whole process shares one
+export function createMemoryStore(data?: MemoryData): GameStore {
+  const { games, locks, events, live, transcripts, rolls }: MemoryData =
+    data ??
+    (globalData.__zorkMemoryStore ??= {
+      games: new Map(),
+      locks: new Map(),
+      events: new Map(),
+      live: new Map(),
+      transcripts: new Map(),
+      rolls: new Map(),
+    });
+
+  return {
+    async get(code) {
+      const raw = games.get(code);
+      return raw ? (JSON.parse(raw) as GameState) : null;
+    },
+
+    async create(code, state) {
+      if (games.has(code)) return false;
+      games.set(code, JSON.stringify(state));
+      return true;
+    },
+
+    async compareAndSet(code, state, expectedRevision) {
+      const raw = games.get(code);
+      const revision = raw ? (JSON.parse(raw) as GameState).revision ?? 0 : 0;
+      if (revision !== expectedRevision) return false;
+      games.set(code, JSON.stringify(state));
+      return true;
+    },
+
+    async acquireLock(code, token, ttlMs) {
+      const held = locks.get(code);
+      if (held && held.expires > Date.now()) return false;
+      locks.set(code, { token, expires: Date.now() + ttlMs });
+      return true;
+    },
+
+    async releaseLock(code, token) {
+      if (locks.get(code)?.token === token) locks.delete(code);
+    },
+
+    async appendEvents(code, newEvents, revision) {
+      append(events, code, newEvents, EVENT_LOG_SIZE, revision);
+    },
+
+    async readEvents(code, afterSeq) {
+      return readAfter(events.get(code) ?? [], afterSeq);
+    },
+
+    async latestEventSeq(code) {
+      return events.get(code)?.at(-1)?.seq ?? 0;
+    },
+
+    async appendLiveEvents(code, newEvents) {
+      append(live, code, newEvents, LIVE_EVENT_LOG_SIZE);
+    },
+
+    async readLiveEvents(code, afterSeq) {
+      return readAfter(live.get(code) ?? [], afterSeq);
+    },
+
+    async appendTranscriptChunk(code, chunk, entries) {
+      const key = `${code}:${chunk}`;
+      transcripts.set(key, [...(transcripts.get(key) ?? []), ...structuredClone(entries)]);
+    },
+
+    async readTranscriptChunk(code, chunk) {
+      return structuredClone(transcripts.get(`${code}:${chunk}`) ?? []);
+    },
+
+    async appendRolls(code, newRolls) {
+      rolls.set(code, [...(rolls.get(code) ?? []), ...structuredClone(newRolls)]);
+    },
+
+    async readRolls(code, afterSeq) {
+      return structuredClone((rolls.get(code) ?? []).filter((r) => r.seq > afterSeq));
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { GameState, TranscriptEntry } from "../game-state";
+import type { RoomEvent } from "../events";
+import type { RollLogEntry } from "../rolls";
+import { EVENT_LOG_SIZE, GameStore, LIVE_EVENT_LOG_SIZE, getStore, setStore } from "./index";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+
+const tmpDirs: string[] = [];
+
+// The KV adapter needs a live Redis, so only the local backends run here
+const adapters: [string, () => GameStore][] = [
+  [
+    "memory",
+    () =>
+      createMemoryStore({
+        games: new Map(),
+        locks: new Map(),
+        events: new Map(),
+        live: new Map(),
+        transcripts: new Map(),
+        rolls: new Map(),
+      }),
+  ],
+  [
+    "file",
+    () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zork-store-"));
+      tmpDirs.push(dir);
+      return createFileStore(dir);
+    },
+  ],
+];
+
+afterAll(() => {
+  for (const dir of tmpDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function game(revision: number, storyBeat = "start"): GameState {
+  return { roomCode: "room1", revision, storyBeat } as GameState;
+}
+
+function entry(seq: number): TranscriptEntry {
+  return { id: `t${seq}`, seq, type: "system", content: `entry ${seq}`, ts: seq };
+}
+
+function rollEntry(seq: number): RollLogEntry {
+  return { id: `r${seq}`, seq, notation: "1d20", rolls: [seq], modifier: 0, total: seq, draws: [seq, seq + 1], seed: 42, nonce: "00", ts: seq };
+}
+
+const thinking: RoomEvent = { type: "thinking", thinking: null };
+
+describe.each(adapters)("%s store", (_name, createStore) => {
+  let store: GameStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it("creates a game once and reads it back", async () => {
+    expect(await store.get("room1")).toBeNull();
+    expect(await store.create("room1", game(0))).toBe(true);
+    expect(await store.create("room1", game(0, "other"))).toBe(false);
+    expect(await store.get("room1")).toEqual(game(0));
+  });
+
+  it("does not share references with callers", async () => {
+    const state = game(0);
+    await store.create("room1", state);
+    state.storyBeat = "changed";
+    expect((await store.get("room1"))?.storyBeat).toBe("start");
+  });
+
+  it("only writes when the revision still matches", async () => {
+    await store.create("room1", game(0));
+    expect(await store.compareAndSet("room1", game(1, "next"), 0)).toBe(true);
+    expect(await store.compareAndSet("room1", game(2, "stale"), 0)).toBe(false);
+    expect(await store.get("room1")).toEqual(game(1, "next"));
+  });
+
+  it("hands the lock to one holder until it is released or expires", async () => {
+    expect(await store.acquireLock("room1", "a", 60_000)).toBe(true);
+    expect(await store.acquireLock("room1", "b", 60_000)).toBe(false);
+
+    await store.releaseLock("room1", "b");
+    expect(await store.acquireLock("room1", "b", 60_000)).toBe(false);
+
+    await store.releaseLock("room1", "a");
+    expect(await store.acquireLock("room1", "b", -1)).toBe(true);
+    expect(await store.acquireLock("room1", "c", 60_000)).toBe(true);
+  });
+
+  it("numbers events in order and reads those after a cursor", async () => {
+    expect(await store.latestEventSeq("room1")).toBe(0);
+    await store.appendEvents("room1", [thinking, thinking], 3);
+    await store.appendEvents("room1", [thinking]);
+
+    expect(await store.latestEventSeq("room1")).toBe(3);
+    expect(await store.readEvents("room1", 1)).toEqual([
+      { seq: 2, revision: 3, event: thinking },
+      { seq: 3, event: thinking },
+    ]);
+    expect(await store.readEvents("room1", 3)).toEqual([]);
+  });
+
+  it("caps the event log but keeps numbering", async () => {
+    await store.appendEvents("room1", Array(EVENT_LOG_SIZE + 5).fill(thinking));
+
+    const events = await store.readEvents("room1", 0);
+    expect(events).toHaveLength(EVENT_LOG_SIZE);
+    expect(events[0].seq).toBe(6);
+    expect(await store.latestEventSeq("room1")).toBe(EVENT_LOG_SIZE + 5);
+  });
+
+  it("keeps live events out of the event log", async () => {
+    const delta: RoomEvent = { type: "narration_delta", text: "The door creaks" };
+    await store.appendEvents("room1", [thinking], 1);
+    await store.appendLiveEvents("room1", [delta, delta]);
+
+    expect(await store.readEvents("room1", 0)).toEqual([{ seq: 1, revision: 1, event: thinking }]);
+    expect(await store.readLiveEvents("room1", 1)).toEqual([{ seq: 2, event: delta }]);
+  });
+
+  it("caps the live log at its own size", async () => {
+    await store.appendLiveEvents("room1", Array(LIVE_EVENT_LOG_SIZE + 1).fill(thinking));
+
+    const live = await store.readLiveEvents("room1", 0);
+    expect(live).toHaveLength(LIVE_EVENT_LOG_SIZE);
+    expect(live.at(-1)?.seq).toBe(LIVE_EVENT_LOG_SIZE + 1);
+  });
+
+  it("appends transcript chunks separately", async () => {
+    await store.appendTranscriptChunk("room1", 0, [entry(0), entry(1)]);
+    await store.appendTranscriptChunk("room1", 0, [entry(2)]);
+    await store.appendTranscriptChunk("room1", 1, [entry(100)]);
+
+    const chunk = await store.readTranscriptChunk("room1", 0);
+    expect(chunk.map((e) => e.seq).sort((a, b) => a - b)).toEqual([0, 1, 2]);
+    expect(await store.readTranscriptChunk("room1", 1)).toEqual([entry(100)]);
+    expect(await store.readTranscriptChunk("room1", 2)).toEqual([]);
+  });
+
+  it("keeps every roll and reads those after a cursor", async () => {
+    await store.appendRolls("room1", [rollEntry(1), rollEntry(2)]);
+    await store.appendRolls("room1", [rollEntry(3)]);
+
+    expect(await store.readRolls("room1", 1)).toEqual([rollEntry(2), rollEntry(3)]);
+  });
+
+  it("keeps rooms apart", async () => {
+    await store.create("room1", game(0));
+    await store.appendEvents("room1", [thinking]);
+    expect(await store.get("room2")).toBeNull();
+    expect(await store.readEvents("room2", 0)).toEqual([]);
+  });
+});
+
+describe("getStore", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setStore(null);
+  });
+
+  it("refuses to guess a store outside development", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("GAME_STORE", undefined);
+    vi.stubEnv("KV_REST_API_URL", undefined);
+    expect(() => getStore()).toThrow(/No game store configured/);
+  });
+
+  it("falls back to memory in development with a warning", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("GAME_STORE", undefined);
+    vi.stubEnv("KV_REST_API_URL", undefined);
+    expect(getStore()).toBeDefined();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("rejects an unknown GAME_STORE", () => {
+    vi.stubEnv("GAME_STORE", "postgres");
+    expect(() => getStore()).toThrow(/Unknown GAME_STORE "postgres"/);
+  });
+});
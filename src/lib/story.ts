@@ -0,0 +1,38 @@
+// Story beat graph helpers. Pure, so the room page can show progress too.
+
+import { Adventure, StoryBeat } from "./adventure";
+
+export function getStoryBeat(adventure: Adventure, beatId: string): StoryBeat | null {
+  return adventure.beats[beatId] ?? null;
+}
+
+/**
+ * Check a beat transition against the adventure's graph.
+ * Returns an error message, or null if the move is allowed.
+ */
+export function checkBeatTransition(adventure: Adventure, from: string, to: string): string | null {
+  const current = getStoryBeat(adventure, from);
+  if (!current) return `Unknown story beat: ${from}`;
+  if (!getStoryBeat(adventure, to)) return `Unknown story beat: ${to}`;
+  if (!current.next.includes(to)) {
+    return current.next.length > 0
+      ? `Can't go from ${from} to ${to} - next beats are ${current.next.join(", ")}`
+      : `The story has ended at ${from}`;
+  }
+  return null;
+}
+
+export interface StoryProgress {
+  act: number;
+  totalActs: number;
+  desc: string;
+}
+
+/**
+ * Where a beat sits in the story, for the progress indicator
+ */
+export function getStoryProgress(adventure: Adventure, beatId: string): StoryProgress {
+  const beat = getStoryBeat(adventure, beatId);
+  const totalActs = Math.max(...Object.values(adventure.beats).map((b) => b.act));
+  return { act: beat?.act ?? 1, totalActs, desc: beat?.desc ?? beatId };
+}
@@ -0,0 +1,391 @@
+// Combat turn flow - advances initiative and runs enemy turns server-side
+
+import {
+  GameState,
+  addToTranscript,
+  getGame,
+  endEffects,
+  getActiveEffects,
+  getEffectTarget,
+  getCharacterLight,
+  getEnemyLight,
+  mutateGame,
+  passTime,
+  updateCharacter,
+  updateGame,
+} from "./game-state";
+import { Character, Condition } from "./character";
+import { ROUNDS_PER_MINUTE } from "./clock";
+import { combineAdvantage, getLightAttackModifier, rollSavingThrow } from "./rules/abilities";
+import { getTraitAdvantage, getTurnAttacks, rollTraitDamage, startEnemyTurn } from "./rules/traits";
+import { Position, SQUARE_FEET, formatSquare, getApproach, getDistanceBetween } from "./rules/grid";
+import {
+  AttackReach,
+  CombatState,
+  CombatantInit,
+  advanceTurn,
+  canTakeActions,
+  checkAttackPosition,
+  getEnemyAttackReach,
+  placeCombatant,
+  chooseEnemyAttack,
+  chooseEnemyTarget,
+  formatAttackResult,
+  getCurrentCombatant,
+  makeEnemyAttack,
+  isDying,
+  resolveCharacterDamage,
+  resolveDeathSave,
+  shouldCombatEnd,
+} from "./rules/combat";
+
+/**
+ * ID of the character or enemy whose turn it is
+ */
+export function getTurnId(combat: CombatState): string | null {
+  const current = getCurrentCombatant(combat);
+  return current?.characterId || current?.id || null;
+}
+
+/**
+ * End combat if one side has been wiped out. Returns the log line, if any.
+ */
+async function checkCombatEnd(code: string): Promise<string | null> {
+  const game = await getGame(code);
+  if (!game?.combat) return null;
+
+  const { end, reason } = shouldCombatEnd(game.combat, game.characters);
+  if (!end) return null;
+
+  const message = reason === "defeat"
+    ? "The party has fallen! Combat ends."
+    : "All enemies have been defeated! Combat ends.";
+
+  await updateGame(code, { combat: null, phase: "exploration", currentTurn: null });
+  await addToTranscript(code, { type: "system", content: message });
+
+  return message;
+}
+
+/**
+ * Whether a combatant is able to take a turn (conscious and not incapacitated)
+ */
+export function canCombatantAct(game: GameState, combatant: CombatantInit): boolean {
+  if (combatant.type === "enemy") {
+    const enemy = game.combat?.enemies.find((e) => e.id === combatant.id);
+    return !!enemy && enemy.currentHp > 0 && canTakeActions(enemy.conditions);
+  }
+  const character = game.characters.find((c) => c.id === (combatant.characterId || combatant.id));
+  return !!character && character.currentHp > 0 && canTakeActions(character.conditions);
+}
+
+/**
+ * Check whether a character may act right now. Outside of combat anyone can;
+ * during combat only the character whose turn it is.
+ * Returns an error message, or null if the action is allowed.
+ */
+export function checkTurn(game: GameState, characterId: string | null | undefined): string | null {
+  if (game.phase !== "combat" || !game.combat) return null;
+
+  if (!characterId) {
+    return "Only characters in the fight can act during combat";
+  }
+
+  if (game.currentTurn !== characterId) {
+    const current = getCurrentCombatant(game.combat);
+    return `It's not your turn - waiting on ${current?.name ?? "the next combatant"}`;
+  }
+
+  return null;
+}
+
+/**
+ * Things that happen as a combatant's turn ends: repeat saves against
+ * effects that allow one, and effects that last until this turn run out.
+ * Returns the log lines.
+ */
+async function resolveEndOfTurn(code: string): Promise<string[]> {
+  const game = await getGame(code);
+  if (!game?.combat) return [];
+  const current = getCurrentCombatant(game.combat);
+  if (!current) return [];
+
+  const { round } = game.combat;
+  const log: string[] = [];
+  const ended: string[] = [];
+
+  for (const effect of getActiveEffects(game)) {
+    const target = getEffectTarget(game, effect.targetId);
+    if (effect.save && target && effect.targetId === current.id) {
+      const { ability, dc } = effect.save;
+      const against = effect.kind === "condition" ? (effect.key as Condition) : undefined;
+      const save = rollSavingThrow(target, ability, dc, "normal", against);
+      const saveText = `${target.name} ${ability.toUpperCase()} save vs ${effect.source}: [${save.roll.natural}] = ${save.total} vs DC ${dc} - ${save.success ? "SUCCESS" : "FAILURE"}`;
+      log.push(saveText);
+      await addToTranscript(code, { type: "dice", content: saveText });
+      if (save.success) ended.push(effect.id);
+    } else if (effect.endsAfterTurn?.combatantId === current.id && effect.endsAfterTurn.round <= round) {
+      ended.push(effect.id);
+    }
+  }
+
+  log.push(...(await endEffects(code, ended)));
+  return log;
+}
+
+/**
+ * End the current combatant's turn, advance initiative and persist the new
+ * current turn. Every ten rounds a minute passes on the game clock.
+ * Returns the log lines.
+ */
+async function passTurn(code: string): Promise<string[]> {
+  const log = await resolveEndOfTurn(code);
+
+  let minutePassed = false;
+  await mutateGame(code, (game) => {
+    minutePassed = false;
+    if (!game.combat) return false;
+    const round = game.combat.round;
+    game.combat = advanceTurn(game.combat);
+    game.currentTurn = getTurnId(game.combat);
+    minutePassed = game.combat.round > round && (game.combat.round - 1) % ROUNDS_PER_MINUTE === 0;
+  });
+  if (minutePassed) log.push(...(await passTime(code, 1)));
+  return log;
+}
+
+/**
+ * Run an enemy's start-of-turn traits (Aggressive). Returns the log lines.
+ */
+async function startTraits(code: string, enemyId: string): Promise<string[]> {
+  let log: string[] = [];
+
+  await mutateGame(code, (game) => {
+    log = [];
+    const enemy = game.combat?.enemies.find((e) => e.id === enemyId);
+    if (!game.combat || !enemy) return false;
+
+    const started = startEnemyTurn(game.combat, enemy);
+    if (started.combat === game.combat) return false;
+    game.combat = started.combat;
+    log = started.log;
+  });
+
+  return log;
+}
+
+/**
+ * Move an enemy toward a character until its attack can reach them (a ranged
+ * attacker only comes as close as its normal range). Returns the log line,
+ * or null if it stayed put.
+ */
+async function closeIn(code: string, enemyId: string, targetId: string, { reach, range }: AttackReach): Promise<string | null> {
+  let moveText: string | null = null;
+
+  await mutateGame(code, (game) => {
+    moveText = null;
+    const combatant = game.combat?.initiativeOrder.find((c) => c.id === enemyId);
+    const enemy = game.combat?.enemies.find((e) => e.id === enemyId);
+    if (!game.combat || !combatant || !enemy) return false;
+
+    const { map } = game.combat;
+    const from = map.positions[enemyId];
+    const to = map.positions[targetId];
+    const feet = enemy.conditions.some((c) => c === "grappled" || c === "restrained") ? 0 : combatant.resources.movement;
+    if (!from || !to || feet <= 0) return false;
+
+    const hostiles = game.characters
+      .filter((c) => c.currentHp > 0)
+      .map((c) => map.positions[c.id])
+      .filter((p): p is Position => !!p);
+    const { position, cost } = getApproach(map, from, to, feet, reach ?? range?.normal ?? SQUARE_FEET, hostiles);
+    if (cost === 0) return false;
+
+    game.combat = placeCombatant(game.combat, enemyId, position, cost);
+    const target = game.characters.find((c) => c.id === targetId)?.name ?? "its target";
+    moveText = `${enemy.name} moves ${cost} ft toward ${target} (${formatSquare(position)}).`;
+  });
+
+  return moveText;
+}
+
+/**
+ * Roll the death save for a dying character whose turn is passed over.
+ * Returns the log line.
+ */
+async function rollTurnDeathSave(code: string, character: Character): Promise<string> {
+  const { updates, message } = resolveDeathSave(character);
+  await updateCharacter(code, character.id, updates);
+  await addToTranscript(code, { type: "combat", content: message });
+  return message;
+}
+
+/**
+ * End a fight that can't go anywhere - nobody on the party's side has been
+ * able to act for a full minute of rounds. Returns the log line.
+ */
+async function endStalledCombat(code: string): Promise<string> {
+  const message = "Nobody in the party can act and the fight stalls. Combat ends.";
+  await updateGame(code, { combat: null, phase: "exploration", currentTurn: null });
+  await addToTranscript(code, { type: "system", content: message });
+  return message;
+}
+
+/**
+ * Run every turn that doesn't need a player, starting from the current
+ * initiative position: enemies attack, dying characters roll death saves,
+ * and combatants who can't act are passed over. Stops when a player
+ * character who can act is up (or combat ends).
+ * Returns the log lines so the DM can narrate them.
+ */
+export async function resolveEnemyTurns(code: string): Promise<string[]> {
+  const log: string[] = [];
+
+  const initial = await getGame(code);
+  if (!initial?.combat) return log;
+
+  // Guard against looping forever: a minute of rounds with nobody in the party able to act
+  const maxTurns = initial.combat.initiativeOrder.length * ROUNDS_PER_MINUTE;
+
+  for (let i = 0; i < maxTurns; i++) {
+    const game = await getGame(code);
+    if (!game?.combat) return log;
+
+    const current = getCurrentCombatant(game.combat);
+    if (!current) return log;
+
+    if (!canCombatantAct(game, current)) {
+      // A dying character still rolls their death save - a natural 20 gets them back up
+      const character = current.type === "player"
+        ? game.characters.find((c) => c.id === (current.characterId || current.id))
+        : undefined;
+      if (character && isDying(character)) {
+        log.push(await rollTurnDeathSave(code, character));
+        const after = await getGame(code);
+        if (after && canCombatantAct(after, current)) return log;
+      } else {
+        const skipText = `${current.name} cannot act and is passed over.`;
+        log.push(skipText);
+        await addToTranscript(code, { type: "combat", content: skipText });
+      }
+
+      const ended = await checkCombatEnd(code);
+      if (ended) {
+        log.push(ended);
+        return log;
+      }
+
+      log.push(...(await passTurn(code)));
+      continue;
+    }
+
+    if (current.type !== "enemy") return log;
+
+    for (const line of await startTraits(code, current.id)) {
+      log.push(line);
+      await addToTranscript(code, { type: "combat", content: line });
+    }
+
+    const enemy = game.combat.enemies.find((e) => e.id === current.id)!;
+    const target = chooseEnemyTarget(enemy, game.characters, game.combat.map);
+    const startDistance = target ? getDistanceBetween(game.combat.map, enemy.id, target.id) : null;
+    const movement = (await getGame(code))?.combat?.initiativeOrder.find((c) => c.id === enemy.id)?.resources?.movement ?? 0;
+    const attack = chooseEnemyAttack(enemy, startDistance ?? SQUARE_FEET, movement);
+
+    // Close in first if the attack can't land from here
+    const moveText = target && attack ? await closeIn(code, enemy.id, target.id, getEnemyAttackReach(attack)) : null;
+    if (moveText) {
+      log.push(moveText);
+      await addToTranscript(code, { type: "combat", content: moveText });
+    }
+
+    const moved = (await getGame(code))?.combat;
+    const position = moved && target && attack
+      ? checkAttackPosition(
+          moved,
+          enemy.id,
+          target.id,
+          getEnemyAttackReach(attack),
+          moved.enemies.filter((e) => e.id !== enemy.id && e.currentHp > 0 && canTakeActions(e.conditions)).map((e) => e.id),
+          game.characters.filter((c) => c.currentHp > 0 && canTakeActions(c.conditions)).map((c) => c.id)
+        )
+      : null;
+
+    if (target && attack && position && !("error" in position)) {
+      // Multiattack swings at the same target until it drops
+      const usedTraits = new Set<string>();
+      for (const turnAttack of getTurnAttacks(enemy, attack)) {
+        const now = await getGame(code);
+        const victim = now?.characters.find((c) => c.id === target.id);
+        if (!now?.combat || !victim || victim.currentHp <= 0) break;
+
+        const distance = getDistanceBetween(now.combat.map, enemy.id, victim.id) ?? SQUARE_FEET;
+        const traits = getTraitAdvantage(now.combat, enemy, victim.id);
+        // In the dark, a character who can't see the monster is attacked with advantage,
+        // unless the monster has no darkvision either
+        const sight = getLightAttackModifier(getEnemyLight(now, enemy), getCharacterLight(now, victim));
+        const attackResult = makeEnemyAttack(
+          enemy,
+          turnAttack,
+          victim.armorClass,
+          combineAdvantage(combineAdvantage(position.advantage, traits.advantage), sight),
+          victim.conditions,
+          distance <= SQUARE_FEET
+        );
+
+        const allNotes = [...position.notes, ...traits.notes, ...(sight !== "normal" ? ["darkness"] : [])];
+        const notes = allNotes.length > 0 ? ` [${allNotes.join(", ")}]` : "";
+        const attackText = `${formatAttackResult(enemy.name, victim.name, attackResult)} (${turnAttack.name})${notes}`;
+        log.push(attackText);
+        await addToTranscript(code, { type: "combat", content: attackText });
+
+        if (attackResult.hit && attackResult.damage) {
+          const extra = rollTraitDamage(now.combat, enemy, victim.id, turnAttack, usedTraits);
+          const { result, updates, statusText } = resolveCharacterDamage(
+            victim,
+            attackResult.damage + extra.damage,
+            turnAttack.damageType
+          );
+          await updateCharacter(code, victim.id, updates);
+
+          const extraText = extra.notes.length > 0 ? ` (${extra.notes.join(", ")})` : "";
+          const damageText = `${victim.name} takes ${result.damageTaken} ${turnAttack.damageType} damage from ${enemy.name}'s ${turnAttack.name}${extraText}. (${result.newHp}/${victim.maxHp} HP)${statusText}`;
+          log.push(damageText);
+          await addToTranscript(code, { type: "combat", content: damageText });
+        }
+      }
+    } else if (target && !moveText) {
+      const holdText = `${enemy.name} can't reach anyone and holds its ground.`;
+      log.push(holdText);
+      await addToTranscript(code, { type: "combat", content: holdText });
+    }
+
+    const ended = await checkCombatEnd(code);
+    if (ended) {
+      log.push(ended);
+      return log;
+    }
+
+    log.push(...(await passTurn(code)));
+  }
+
+  // Never leave the turn on someone who can't take it - that would lock everyone out
+  const game = await getGame(code);
+  const current = game?.combat && getCurrentCombatant(game.combat);
+  if (!game || !current || (current.type === "player" && canCombatantAct(game, current))) return log;
+  log.push(await endStalledCombat(code));
+  return log;
+}
+
+/**
+ * End the current combatant's turn and run everything up to the next
+ * player who can act
+ */
+export async function endTurn(code: string): Promise<string[]> {
+  const game = await getGame(code);
+  if (!game?.combat) return [];
+
+  const log = await passTurn(code);
+
+  return [...log, ...(await resolveEnemyTurns(code))];
+}